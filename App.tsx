@@ -3,9 +3,10 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useReducer, useMemo } from 'react';
 import { generateCompositeImage } from './services/geminiService';
-import { Door } from './types';
+import { BrushStroke, CustomDoor, Door, DoorConfiguration, ExpectedDoorSize, PlacementMode, PlacementQuad, RelativePoint, ScaleCalibration, SceneVersion } from './types';
+import { DoorBatchJob } from './services/doorBatch';
 import Header from './components/Header';
 import ImageUploader from './components/ImageUploader';
 import ObjectCard from './components/ObjectCard';
@@ -14,7 +15,44 @@ import DebugModal from './components/DebugModal';
 import TouchGhost from './components/TouchGhost';
 import DoorSelector from './components/ProductSelector';
 import AddProductModal from './components/AddProductModal';
-import { predefinedDoors } from './data/doors';
+import DoorDetails from './components/DoorDetails';
+import CalibrationPanel from './components/CalibrationPanel';
+import VersionStrip from './components/VersionStrip';
+import CompareModal from './components/CompareModal';
+import CandidateGallery from './components/CandidateGallery';
+import BatchModal from './components/BatchModal';
+import ProjectsModal from './components/ProjectsModal';
+import InpaintPanel, { BRUSH_SIZE_OPTIONS } from './components/InpaintPanel';
+import GenerationStepper from './components/GenerationStepper';
+import GenerationErrorPanel, { RecoveryAction } from './components/GenerationErrorPanel';
+import PlacementModePicker from './components/PlacementModePicker';
+import DoorConfigurationPanel from './components/DoorConfigurationPanel';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import { CalibrationLine } from './components/CalibrationOverlay';
+import { CatalogWarning, DoorImageError, loadDoorCatalog } from './services/catalogService';
+import { DEFAULT_DOOR_CONFIGURATION, describeDoorForPrompt, formatDoorConfiguration } from './services/doorSpecs';
+import { fetchFinishImageFile, findFinish } from './services/doorFinishes';
+import { getContainedImageRect, loadImage } from './services/imageUtils';
+import { computeExpectedDoorSize } from './services/scaleCalibration';
+import { canRedo, canUndo, getCurrentBatch, getCurrentVersion, getTimelineVersions, initialSceneHistory, sceneHistoryReducer } from './services/sceneHistory';
+import { createInpaintRegion } from './services/inpaintMask';
+import { IngestionNotice } from './services/imageIngestion';
+import { useObjectUrl } from './hooks/useObjectUrl';
+import { isAbortError, RetryNotice } from './services/retry';
+import { applyProgressEvent, createInitialProgress, GenerationProgress } from './services/generationProgress';
+import { GenerationError, GenerationWarning, toGenerationError } from './services/generationErrors';
+import {
+  ProjectRecord,
+  createProjectId,
+  deleteProject,
+  getLastProjectId,
+  getProjectMeta,
+  loadProject,
+  saveProject,
+  setLastProjectId,
+} from './services/projectStore';
+import { createDefaultQuad, getQuadCentroid } from './services/placementGeometry';
+import { MessageKey, Translate, useI18n } from './i18n';
 
 
 // Pre-load a transparent image to use for hiding the default drag ghost.
@@ -22,45 +60,72 @@ import { predefinedDoors } from './data/doors';
 const transparentDragImage = new Image();
 transparentDragImage.src = 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7';
 
-// Helper to convert a data URL string to a File object
-const dataURLtoFile = (dataurl: string, filename: string): File => {
-    const arr = dataurl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while(n--){
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new File([u8arr], filename, {type:mime});
-}
+const CANDIDATE_COUNT_OPTIONS = [1, 2, 3, 4];
+
+// Delay before changes are written to IndexedDB, so bursts of edits save once.
+const AUTOSAVE_DELAY_MS = 800;
 
-const loadingMessages = [
-    "Analyzing your door...",
-    "Surveying your space...",
-    "Describing placement location with AI...",
-    "Crafting the perfect composition prompt...",
-    "Generating photorealistic options...",
-    "Assembling the final scene..."
-];
+const createDefaultProjectName = (t: Translate, intlLocale: string) =>
+  t('projects.defaultName', { date: new Date().toLocaleString(intlLocale) });
+
+const revokeCustomDoorUrls = (customDoors: CustomDoor[]) => {
+  customDoors.forEach(({ door }) => URL.revokeObjectURL(door.imageUrl));
+};
 
 
 const App: React.FC = () => {
+  const { t, intlLocale, formatNumber } = useI18n();
   const [selectedDoor, setSelectedDoor] = useState<Door | null>(null);
   const [doorImageFile, setDoorImageFile] = useState<File | null>(null);
-  const [sceneImage, setSceneImage] = useState<File | null>(null);
+  const [selectedFinishId, setSelectedFinishId] = useState<string | null>(null);
+  const [recolouredDoorUrl, setRecolouredDoorUrl] = useState<string | null>(null);
+  const [sceneHistory, dispatchSceneHistory] = useReducer(sceneHistoryReducer, initialSceneHistory);
+  // What ingestion changed about the uploaded scene; shown while the original is on screen.
+  const [sceneIngestionNotices, setSceneIngestionNotices] = useState<IngestionNotice[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [loadingMessageIndex, setLoadingMessageIndex] = useState(0);
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null);
+  const [generationWarnings, setGenerationWarnings] = useState<GenerationWarning[]>([]);
+  // The last drop, so a failed or degraded placement can be retried as it was.
+  const lastDropRef = useRef<{ position: { x: number; y: number }; relativePosition: RelativePoint; baseVersionId: string } | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const [generationElapsedMs, setGenerationElapsedMs] = useState(0);
+  // When the running generation started (`performance.now()`), for the stepper's clock.
+  const [generationStartedAt, setGenerationStartedAt] = useState<number | null>(null);
   const [persistedOrbPosition, setPersistedOrbPosition] = useState<{x: number, y: number} | null>(null);
-  const [debugImageUrl, setDebugImageUrl] = useState<string | null>(null);
-  const [debugPrompt, setDebugPrompt] = useState<string | null>(null);
   const [isDebugModalOpen, setIsDebugModalOpen] = useState(false);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isCompareModalOpen, setIsCompareModalOpen] = useState(false);
+  const [candidateCount, setCandidateCount] = useState<number>(1);
+  const [isBatchModalOpen, setIsBatchModalOpen] = useState(false);
+  const [isMaskedMode, setIsMaskedMode] = useState<boolean>(false);
+  const [isBrushing, setIsBrushing] = useState<boolean>(false);
+  const [brushRadiusPercent, setBrushRadiusPercent] = useState<number>(BRUSH_SIZE_OPTIONS[1].radiusPercent);
+  const [maskStrokes, setMaskStrokes] = useState<BrushStroke[]>([]);
+  const [retryNotice, setRetryNotice] = useState<RetryNotice | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [customDoors, setCustomDoors] = useState<CustomDoor[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [currentProjectName, setCurrentProjectName] = useState<string>(() => createDefaultProjectName(t, intlLocale));
+  const [isProjectRestored, setIsProjectRestored] = useState<boolean>(false);
+  const hasStartedRestoreRef = useRef(false);
+  const [isProjectsModalOpen, setIsProjectsModalOpen] = useState(false);
+  const customDoorsRef = useRef<CustomDoor[]>([]);
+  customDoorsRef.current = customDoors;
+  const [predefinedDoors, setPredefinedDoors] = useState<Door[]>([]);
+  const [isCatalogLoading, setIsCatalogLoading] = useState<boolean>(true);
+  const [catalogWarnings, setCatalogWarnings] = useState<CatalogWarning[]>([]);
+  // Kept as the English message so the translated wrapper follows a language switch.
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  const [placementQuad, setPlacementQuad] = useState<PlacementQuad | null>(null);
+  const [placementMode, setPlacementMode] = useState<PlacementMode>('replace-existing');
+  const [doorConfiguration, setDoorConfiguration] = useState<DoorConfiguration>(DEFAULT_DOOR_CONFIGURATION);
+  const [lastPlacementPoint, setLastPlacementPoint] = useState<RelativePoint | null>(null);
+  const [sceneDimensions, setSceneDimensions] = useState<{ width: number; height: number } | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState<boolean>(false);
+  const [calibrationLine, setCalibrationLine] = useState<CalibrationLine | null>(null);
+  const [referenceLengthCm, setReferenceLengthCm] = useState<string>('');
+  const [showSizeGuide, setShowSizeGuide] = useState<boolean>(true);
 
   // State for touch drag & drop
   const [isTouchDragging, setIsTouchDragging] = useState<boolean>(false);
@@ -69,11 +134,40 @@ const App: React.FC = () => {
   const [touchOrbPosition, setTouchOrbPosition] = useState<{x: number, y: number} | null>(null);
   const sceneImgRef = useRef<HTMLImageElement>(null);
   
-  const sceneImageUrl = sceneImage ? URL.createObjectURL(sceneImage) : null;
-  const doorImageUrl = selectedDoor ? selectedDoor.imageUrl : null;
+  // The scene shown and used as the base for the next placement is the current version.
+  const currentSceneVersion = getCurrentVersion(sceneHistory);
+  const sceneImage = currentSceneVersion?.file ?? null;
+  const debugImageUrl = currentSceneVersion?.generation?.debugImageUrl ?? null;
+  const debugPrompt = currentSceneVersion?.generation?.prompt ?? null;
+  const debugPromptTemplates = currentSceneVersion?.generation?.promptTemplates ?? null;
+  const debugCacheLookups = currentSceneVersion?.generation?.cacheLookups ?? null;
+  const originalSceneImage = sceneHistory.versions.find(version => version.parentId === null)?.file ?? null;
+
+  const sceneImageUrl = useObjectUrl(sceneImage);
+  const selectedFinish = findFinish(selectedDoor, selectedFinishId);
+  const doorImageUrl = selectedDoor ? selectedFinish?.imageUrl ?? recolouredDoorUrl ?? selectedDoor.imageUrl : null;
+
+  const referenceLengthMm = Number(referenceLengthCm) * 10;
+  const scaleCalibration = useMemo<ScaleCalibration | null>(() => (
+    calibrationLine && referenceLengthMm > 0 ? { ...calibrationLine, lengthMm: referenceLengthMm } : null
+  ), [calibrationLine, referenceLengthMm]);
+  const getExpectedDoorSize = useCallback((door: Door): ExpectedDoorSize | undefined => {
+    if (!scaleCalibration || !door.dimensions || !sceneDimensions) return undefined;
+    return computeExpectedDoorSize(scaleCalibration, door.dimensions, sceneDimensions.width, sceneDimensions.height) ?? undefined;
+  }, [scaleCalibration, sceneDimensions]);
+  const expectedDoorSize = selectedDoor ? getExpectedDoorSize(selectedDoor) ?? null : null;
+  // The spot batch renders use: the outline if drawn, else the last placement.
+  const batchPoint = placementQuad ? getQuadCentroid(placementQuad) : lastPlacementPoint;
+
+  // The region masked mode may edit around a placement; the preview uses the last placement point.
+  const getInpaintRegion = useCallback((point: RelativePoint) => isMaskedMode
+    ? createInpaintRegion(point, placementQuad ?? undefined, maskStrokes, expectedDoorSize ?? undefined, sceneDimensions ?? undefined)
+    : undefined,
+  [isMaskedMode, placementQuad, maskStrokes, expectedDoorSize, sceneDimensions]);
+  const inpaintPreviewBase = batchPoint ? getInpaintRegion(batchPoint)?.base ?? null : null;
 
   const handleDoorImageUpload = useCallback((file: File) => {
-    // useEffect will handle cleaning up the previous blob URL
+    // The blob URL lives as long as the custom door; it is revoked when the project is closed.
     setError(null);
     try {
         const imageUrl = URL.createObjectURL(file);
@@ -81,130 +175,457 @@ const App: React.FC = () => {
             id: Date.now(),
             name: file.name,
             imageUrl: imageUrl,
+            categories: ['uploaded'],
         };
+        setCustomDoors(prev => [...prev, { door, file }]);
         setDoorImageFile(file);
         setSelectedDoor(door);
+        setSelectedFinishId(null);
         setIsAddModalOpen(false);
     } catch(err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Could not load the door image. Details: ${errorMessage}`);
+      const errorMessage = err instanceof Error ? err.message : t('app.unknownError');
+      setError(t('main.doorImageError', { details: errorMessage }));
       console.error(err);
     }
-  }, []);
+  }, [t]);
   
-  const handleSelectPredefinedDoor = useCallback(async (door: Door) => {
+  const handleSelectPredefinedDoor = useCallback(async (door: Door, finishId: string | null = null) => {
+    const customDoor = customDoorsRef.current.find(c => c.door.id === door.id);
+    if (customDoor) {
+        setDoorImageFile(customDoor.file);
+        setSelectedDoor(customDoor.door);
+        setSelectedFinishId(null);
+        return;
+    }
     setIsLoading(true);
     setError(null);
     try {
-        const response = await fetch(door.imageUrl);
-        if (!response.ok) {
-            throw new Error(`Failed to load door image: ${door.name}`);
-        }
-        const blob = await response.blob();
-        const fileName = door.imageUrl.split('/').pop() || 'door.jpg';
-        const fileType = blob.type || 'image/jpeg';
-        const file = new File([blob], fileName, { type: fileType });
-        
+        const file = await fetchFinishImageFile(door, findFinish(door, finishId));
         setDoorImageFile(file);
         setSelectedDoor(door);
+        setSelectedFinishId(finishId);
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Could not load the selected door. Details: ${errorMessage}`);
+        const errorMessage = err instanceof Error ? err.message : t('app.unknownError');
+        if (err instanceof DoorImageError && err.isMissing) {
+            // Drop the broken entry from the catalog instead of failing the whole app.
+            setPredefinedDoors(prev => prev.filter(d => d.id !== door.id));
+            setCatalogWarnings(prev => [...prev, { kind: 'image-missing', door: door.name, url: door.imageUrl }]);
+        } else {
+            // Possibly a passing network problem; the door stays so it can be picked again.
+            setError(t('main.doorLoadRetry', { door: door.name, details: errorMessage }));
+        }
         console.error(err);
     } finally {
         setIsLoading(false);
     }
-  }, []);
+  }, [t]);
+
+  const handleSelectFinish = useCallback(async (finishId: string | null) => {
+    // Ignored while generating: the running placement already uses the current image.
+    if (!selectedDoor || isLoading) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+        const file = await fetchFinishImageFile(selectedDoor, findFinish(selectedDoor, finishId));
+        setDoorImageFile(file);
+        setSelectedFinishId(finishId);
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : t('app.unknownError');
+        setError(t('main.finishError', { details: errorMessage }));
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [selectedDoor, isLoading, t]);
+
+  useEffect(() => {
+    // A recoloured finish has no URL of its own; preview the generated file.
+    if (!selectedFinish || selectedFinish.imageUrl || !doorImageFile) {
+      setRecolouredDoorUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(doorImageFile);
+    setRecolouredDoorUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selectedFinish, doorImageFile]);
 
-  const handleDoorDrop = useCallback(async (position: {x: number, y: number}, relativePosition: { xPercent: number; yPercent: number; }) => {
-    if (!doorImageFile || !sceneImage || !selectedDoor) {
-      setError('An unexpected error occurred. Please try again.');
+  // `baseVersion` is the scene to place the door in; it defaults to the current version.
+  const handleDoorDrop = useCallback(async (position: {x: number, y: number}, relativePosition: RelativePoint, baseVersion?: SceneVersion) => {
+    const base = baseVersion ?? currentSceneVersion;
+    if (!doorImageFile || !base || !selectedDoor) {
+      setError(t('main.unexpectedError'));
       return;
     }
+    lastDropRef.current = { position, relativePosition, baseVersionId: base.id };
+    // A scene that already has a result from a placement is being placed on again, by a
+    // retry or a new drop: the user wants a new image, not the cached one.
+    const regenerate = sceneHistory.versions.some(version => version.parentId === base.id);
+    // When an outline is drawn it defines the opening, wherever the door was dropped.
+    const placementPoint = placementQuad ? getQuadCentroid(placementQuad) : relativePosition;
+    const inpaintRegion = getInpaintRegion(placementPoint);
     setPersistedOrbPosition(position);
+    setLastPlacementPoint(placementPoint);
+    setIsCalibrating(false);
+    setIsBrushing(false);
     setIsLoading(true);
     setError(null);
+    setGenerationError(null);
+    setGenerationWarnings([]);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setGenerationStartedAt(performance.now());
+    setGenerationProgress(createInitialProgress());
+    setGenerationElapsedMs(0);
+    let failed = false;
     try {
-      const { finalImageUrl, debugImageUrl, finalPrompt } = await generateCompositeImage(
+      const { candidateImages, debugImageUrl, finalPrompt, promptTemplates, warnings, cacheLookups } = await generateCompositeImage(
         doorImageFile, 
-        selectedDoor.name,
-        sceneImage,
-        sceneImage.name,
-        relativePosition
+        describeDoorForPrompt(selectedDoor, selectedFinish),
+        base.file,
+        base.file.name,
+        placementPoint,
+        {
+          quad: placementQuad ?? undefined,
+          placementMode,
+          doorConfiguration,
+          expectedDoorSize: expectedDoorSize ?? undefined,
+          candidateCount,
+          regenerate,
+          inpaintRegion,
+          signal: controller.signal,
+          onRetry: setRetryNotice,
+          onProgress: (event) => {
+            setGenerationProgress(progress => progress && applyProgressEvent(progress, event));
+            setGenerationElapsedMs(event.elapsedMs);
+          },
+        }
       );
-      setDebugImageUrl(debugImageUrl);
-      setDebugPrompt(finalPrompt);
-      const newSceneFile = dataURLtoFile(finalImageUrl, `generated-scene-${Date.now()}.jpeg`);
-      setSceneImage(newSceneFile);
+      const timestamp = Date.now();
+      const candidateFiles = candidateImages.map((image, index) => new File([image], `generated-scene-${timestamp}-${index + 1}.png`, { type: image.type }));
+      dispatchSceneHistory({
+        type: 'add',
+        files: candidateFiles,
+        parentId: base.id,
+        generation: {
+          door: selectedDoor,
+          placement: { point: placementPoint, quad: placementQuad ?? undefined, mode: placementMode, inpaintRegion },
+          debugImageUrl,
+          prompt: finalPrompt,
+          promptTemplates,
+          cacheLookups,
+          doorConfiguration,
+          finish: selectedFinish ?? undefined,
+        },
+      });
+      setGenerationWarnings(warnings);
 
     } catch (err)
  {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Failed to generate the image. ${errorMessage}`);
+      if (isAbortError(err)) {
+        console.log('Generation cancelled by the user.');
+        return;
+      }
+      failed = true;
+      setGenerationError(toGenerationError(err));
       console.error(err);
     } finally {
+      // Keep the stepper after a failure so the error page can show where it stopped.
+      if (!failed) setGenerationProgress(null);
+      setGenerationStartedAt(null);
+      generationAbortRef.current = null;
       setIsLoading(false);
+      setRetryNotice(null);
       setPersistedOrbPosition(null);
     }
-  }, [doorImageFile, sceneImage, selectedDoor]);
+  }, [doorImageFile, selectedDoor, selectedFinish, currentSceneVersion, sceneHistory, placementQuad, placementMode, doorConfiguration, expectedDoorSize, candidateCount, getInpaintRegion, t]);
+
+  const handleCancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
+  // Runs the last placement again with the current door, on the scene version it started from.
+  const handleRetryPlacement = useCallback(() => {
+    const lastDrop = lastDropRef.current;
+    const baseVersion = lastDrop && sceneHistory.versions.find(version => version.id === lastDrop.baseVersionId);
+    if (!lastDrop || !baseVersion) return;
+    handleDoorDrop(lastDrop.position, lastDrop.relativePosition, baseVersion);
+  }, [handleDoorDrop, sceneHistory]);
+
+  const handleDismissGenerationError = useCallback(() => {
+    setGenerationError(null);
+    setGenerationProgress(null);
+  }, []);
 
+  // The job carries its own settings; the panel's may have changed since the batch ran.
+  const hasSceneVersion = useCallback((id: string) => sceneHistory.versions.some(version => version.id === id), [sceneHistory]);
+
+  const handleUseBatchResult = useCallback((job: DoorBatchJob) => {
+    if (!job.resultImage || !hasSceneVersion(job.sceneVersionId)) return;
+    const file = new File([job.resultImage], `generated-scene-${Date.now()}.png`, { type: job.resultImage.type });
+    dispatchSceneHistory({
+      type: 'add',
+      files: [file],
+      parentId: job.sceneVersionId,
+      generation: {
+        door: job.door,
+        placement: job.placement,
+        debugImageUrl: job.debugImageUrl ?? '',
+        prompt: job.prompt ?? '',
+        promptTemplates: job.promptTemplates,
+        cacheLookups: job.cacheLookups,
+        doorConfiguration: job.doorConfiguration,
+      },
+    });
+    setIsBatchModalOpen(false);
+  }, [hasSceneVersion]);
+
+  const handlePlaceInOutline = useCallback(() => {
+    const img = sceneImgRef.current;
+    const container = img?.parentElement;
+    if (!placementQuad || !img || !container) return;
+    // Show the orb at the outline's centre while generating.
+    const centroid = getQuadCentroid(placementQuad);
+    const rect = getContainedImageRect(img.naturalWidth, img.naturalHeight, container.clientWidth, container.clientHeight);
+    handleDoorDrop(
+      { x: rect.x + (centroid.xPercent / 100) * rect.width, y: rect.y + (centroid.yPercent / 100) * rect.height },
+      centroid
+    );
+  }, [placementQuad, handleDoorDrop]);
+
+
+  const handleClearCalibration = useCallback(() => {
+    setIsCalibrating(false);
+    setCalibrationLine(null);
+    setReferenceLengthCm('');
+  }, []);
 
   const handleReset = useCallback(() => {
-    // Let useEffect handle URL revocation
+    // Custom door URLs stay alive for the selector; they are revoked with the project.
     setSelectedDoor(null);
     setDoorImageFile(null);
-    setSceneImage(null);
+    dispatchSceneHistory({ type: 'reset', file: null });
     setError(null);
+    setGenerationError(null);
+    setGenerationWarnings([]);
+    setGenerationProgress(null);
     setIsLoading(false);
     setPersistedOrbPosition(null);
-    setDebugImageUrl(null);
-    setDebugPrompt(null);
-  }, []);
+    setPlacementQuad(null);
+    setLastPlacementPoint(null);
+    setMaskStrokes([]);
+    setIsBrushing(false);
+    handleClearCalibration();
+  }, [handleClearCalibration]);
 
   const handleChangeDoor = useCallback(() => {
-    // Let useEffect handle URL revocation
     setSelectedDoor(null);
+    setSelectedFinishId(null);
     setDoorImageFile(null);
     setPersistedOrbPosition(null);
-    setDebugImageUrl(null);
-    setDebugPrompt(null);
   }, []);
   
+  const handleSceneUpload = useCallback((file: File, notices: IngestionNotice[]) => {
+    // A new photo starts a new timeline with the upload as its original.
+    dispatchSceneHistory({ type: 'reset', file });
+    setSceneIngestionNotices(notices);
+    setGenerationWarnings([]);
+    setPlacementQuad(null);
+    setLastPlacementPoint(null);
+    setMaskStrokes([]);
+    setIsBrushing(false);
+    handleClearCalibration();
+  }, [handleClearCalibration]);
+
   const handleChangeScene = useCallback(() => {
-    setSceneImage(null);
+    dispatchSceneHistory({ type: 'reset', file: null });
+    setSceneIngestionNotices([]);
+    setGenerationWarnings([]);
+    setPlacementQuad(null);
+    setLastPlacementPoint(null);
+    setMaskStrokes([]);
+    setIsBrushing(false);
+    handleClearCalibration();
     setPersistedOrbPosition(null);
-    setDebugImageUrl(null);
-    setDebugPrompt(null);
-  }, []);
+  }, [handleClearCalibration]);
+
+  const handleRecoveryAction = useCallback((action: RecoveryAction) => {
+    if (action === 'retry') {
+      handleRetryPlacement();
+      return;
+    }
+    if (action === 'start-over') {
+      handleReset();
+      return;
+    }
+    handleDismissGenerationError();
+    if (action === 'change-door') handleChangeDoor();
+    if (action === 'change-scene') handleChangeScene();
+  }, [handleRetryPlacement, handleReset, handleDismissGenerationError, handleChangeDoor, handleChangeScene]);
 
   useEffect(() => {
-    // Clean up the scene's object URL when the component unmounts or the URL changes
-    return () => {
-        if (sceneImageUrl) URL.revokeObjectURL(sceneImageUrl);
+    // Keyboard shortcuts for the scene timeline
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isLoading || !(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      e.preventDefault();
+      dispatchSceneHistory({ type: e.shiftKey ? 'redo' : 'undo' });
     };
-  }, [sceneImageUrl]);
-  
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isLoading]);
+
   useEffect(() => {
-    // Clean up the door's object URL when the component unmounts or the URL changes
+    let isCancelled = false;
+    loadDoorCatalog()
+      .then(({ doors, warnings }) => {
+        if (isCancelled) return;
+        setPredefinedDoors(doors);
+        setCatalogWarnings(warnings);
+      })
+      .catch(err => {
+        if (isCancelled) return;
+        setCatalogError(err instanceof Error ? err.message : '');
+        console.error(err);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsCatalogLoading(false);
+      });
     return () => {
-        if (doorImageUrl && doorImageUrl.startsWith('blob:')) {
-            URL.revokeObjectURL(doorImageUrl);
-        }
+      isCancelled = true;
     };
-  }, [doorImageUrl]);
+  }, []);
 
   useEffect(() => {
-    let interval: ReturnType<typeof setInterval> | undefined;
-    if (isLoading && sceneImage) { // Only show detailed messages on final generation
-        setLoadingMessageIndex(0); // Reset on start
-        interval = setInterval(() => {
-            setLoadingMessageIndex(prevIndex => (prevIndex + 1) % loadingMessages.length);
-        }, 3000);
+    // The scene's pixel size is needed to turn the calibration into an expected door size.
+    if (!sceneImage) {
+      setSceneDimensions(null);
+      return;
     }
+    let isCancelled = false;
+    loadImage(sceneImage)
+      .then(img => {
+        if (!isCancelled) setSceneDimensions({ width: img.naturalWidth, height: img.naturalHeight });
+      })
+      .catch(err => console.error(err));
     return () => {
-        if (interval) clearInterval(interval);
+      isCancelled = true;
     };
-  }, [isLoading, sceneImage]);
+  }, [sceneImage]);
+
+  useEffect(() => {
+    // Clean up the custom doors' object URLs when the component unmounts
+    return () => revokeCustomDoorUrls(customDoorsRef.current);
+  }, []);
+
+  // Replaces the whole working state with a saved project (or a blank one).
+  const applyProject = useCallback((record: ProjectRecord | null, name: string) => {
+    revokeCustomDoorUrls(customDoorsRef.current);
+    // Blob URLs do not survive a reload, so custom doors get fresh ones.
+    const restoredCustomDoors = (record?.customDoors ?? []).map(({ door, file }) => ({
+      door: { ...door, imageUrl: URL.createObjectURL(file) },
+      file,
+    }));
+    const savedDoor = record?.selectedDoor ?? null;
+    const restoredDoor = savedDoor
+      ? restoredCustomDoors.find(c => c.door.id === savedDoor.id)?.door ?? savedDoor
+      : null;
+
+    setCustomDoors(restoredCustomDoors);
+    setSelectedDoor(restoredDoor);
+    setSelectedFinishId(restoredDoor ? record?.selectedFinishId ?? null : null);
+    setDoorImageFile(restoredDoor ? record?.doorImage ?? null : null);
+    dispatchSceneHistory(record ? { type: 'restore', state: record.sceneHistory } : { type: 'reset', file: null });
+    setSceneIngestionNotices([]);
+    setCurrentProjectId(record?.id ?? null);
+    setCurrentProjectName(name);
+    setLastProjectId(record?.id ?? null);
+    setPlacementQuad(null);
+    setLastPlacementPoint(null);
+    setMaskStrokes([]);
+    setIsBrushing(false);
+    handleClearCalibration();
+    setPersistedOrbPosition(null);
+    setError(null);
+  }, [handleClearCalibration]);
+
+  // Resolves to false when the project no longer exists.
+  const openProject = useCallback(async (id: string): Promise<boolean> => {
+    const [record, meta] = await Promise.all([loadProject(id), getProjectMeta(id)]);
+    if (!record || !meta) return false;
+    applyProject(record, meta.name);
+    return true;
+  }, [applyProject]);
+
+  useEffect(() => {
+    // Restore the last open project on load, once: running again would throw away unsaved work.
+    if (hasStartedRestoreRef.current) return;
+    hasStartedRestoreRef.current = true;
+    const lastProjectId = getLastProjectId();
+    if (!lastProjectId) {
+      setIsProjectRestored(true);
+      return;
+    }
+    openProject(lastProjectId)
+      .then(found => {
+        if (!found) setLastProjectId(null);
+      })
+      .catch(err => {
+        console.error('Could not restore the last project:', err);
+        setLastProjectId(null);
+      })
+      .finally(() => setIsProjectRestored(true));
+  }, [openProject]);
+
+  useEffect(() => {
+    // Autosave the working state to the current project, creating one on the first change.
+    if (!isProjectRestored) return;
+    const hasContent = !!selectedDoor || sceneHistory.versions.length > 0 || customDoors.length > 0;
+    if (!hasContent && !currentProjectId) return;
+
+    const projectId = currentProjectId ?? createProjectId();
+    if (!currentProjectId) {
+      setCurrentProjectId(projectId);
+      setLastProjectId(projectId);
+      return; // the state change re-runs this effect with the id in place
+    }
+    const timeout = setTimeout(() => {
+      saveProject(projectId, currentProjectName, {
+        selectedDoor,
+        selectedFinishId,
+        doorImage: doorImageFile,
+        customDoors,
+        sceneHistory,
+      }).catch(err => console.error('Could not save the project:', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [isProjectRestored, currentProjectId, currentProjectName, selectedDoor, selectedFinishId, doorImageFile, customDoors, sceneHistory]);
+
+  const handleNewProject = useCallback(() => {
+    applyProject(null, createDefaultProjectName(t, intlLocale));
+    setIsProjectsModalOpen(false);
+  }, [applyProject, t, intlLocale]);
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    try {
+      if (!(await openProject(id))) {
+        setError(t('projects.openError', { details: t('projects.notFound') }));
+      }
+      setIsProjectsModalOpen(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : t('app.unknownError');
+      setError(t('projects.openError', { details: errorMessage }));
+      setIsProjectsModalOpen(false);
+      console.error(err);
+    }
+  }, [openProject, t]);
+
+  const handleDeleteProject = useCallback(async (id: string) => {
+    await deleteProject(id);
+    if (id === currentProjectId) {
+      applyProject(null, createDefaultProjectName(t, intlLocale));
+    }
+  }, [currentProjectId, applyProject, t, intlLocale]);
 
   const handleTouchStart = (e: React.TouchEvent) => {
     if (!selectedDoor) return;
@@ -244,23 +665,9 @@ const App: React.FC = () => {
       if (dropZone && sceneImgRef.current) {
           const img = sceneImgRef.current;
           const containerRect = dropZone.getBoundingClientRect();
-          const { naturalWidth, naturalHeight } = img;
-          const { width: containerWidth, height: containerHeight } = containerRect;
-
-          const imageAspectRatio = naturalWidth / naturalHeight;
-          const containerAspectRatio = containerWidth / containerHeight;
-
-          let renderedWidth, renderedHeight;
-          if (imageAspectRatio > containerAspectRatio) {
-              renderedWidth = containerWidth;
-              renderedHeight = containerWidth / imageAspectRatio;
-          } else {
-              renderedHeight = containerHeight;
-              renderedWidth = containerHeight * imageAspectRatio;
-          }
-          
-          const offsetX = (containerWidth - renderedWidth) / 2;
-          const offsetY = (containerHeight - renderedHeight) / 2;
+          const { x: offsetX, y: offsetY, width: renderedWidth, height: renderedHeight } = getContainedImageRect(
+              img.naturalWidth, img.naturalHeight, containerRect.width, containerRect.height
+          );
 
           const dropX = touch.clientX - containerRect.left;
           const dropY = touch.clientY - containerRect.top;
@@ -296,26 +703,42 @@ const App: React.FC = () => {
   }, [isTouchDragging, handleDoorDrop]);
 
   const renderContent = () => {
+    if (generationError) {
+      return (
+        <GenerationErrorPanel
+          error={generationError}
+          progress={generationProgress}
+          elapsedMs={generationElapsedMs}
+          onAction={handleRecoveryAction}
+        />
+      );
+    }
+
     if (error) {
        return (
            <div className="text-center animate-fade-in bg-red-50 border border-red-200 p-8 rounded-lg max-w-2xl mx-auto">
-            <h2 className="text-3xl font-extrabold mb-4 text-red-800">An Error Occurred</h2>
+            <h2 className="text-3xl font-extrabold mb-4 text-red-800">{t('main.errorTitle')}</h2>
             <p className="text-lg text-red-700 mb-6">{error}</p>
+            {generationProgress && (
+              <div className="mb-6">
+                <GenerationStepper progress={generationProgress} elapsedMs={generationElapsedMs} />
+              </div>
+            )}
             <button
                 onClick={handleReset}
                 className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors"
               >
-                Try Again
+                {t('main.tryAgain')}
             </button>
           </div>
         );
     }
     
-    if (isLoading && !sceneImage) {
+    if ((isLoading && !sceneImage) || (isCatalogLoading && !selectedDoor)) {
       return (
           <div className="text-center animate-fade-in">
               <Spinner />
-              <p className="text-xl mt-4 text-zinc-600">Loading door...</p>
+              <p className="text-xl mt-4 text-zinc-600">{isCatalogLoading ? t('main.loadingCatalog') : t('main.loadingDoor')}</p>
           </div>
       );
     }
@@ -325,7 +748,9 @@ const App: React.FC = () => {
         return (
             <div className="w-full animate-fade-in">
                 <DoorSelector
-                    doors={predefinedDoors}
+                    doors={[...customDoors.map(c => c.door), ...predefinedDoors]}
+                    warnings={catalogWarnings}
+                    loadError={catalogError === null ? null : t('main.catalogError', { details: catalogError || t('app.unknownError') })}
                     onSelect={handleSelectPredefinedDoor}
                     onAddOwnProductClick={() => setIsAddModalOpen(true)}
                 />
@@ -344,31 +769,38 @@ const App: React.FC = () => {
             <div className="w-full max-w-6xl mx-auto animate-fade-in">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-stretch">
                     <div className="flex flex-col">
-                        <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Selected Door</h2>
-                        <ObjectCard door={selectedDoor} isSelected={true} />
+                        <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">{t('main.selectedDoor')}</h2>
+                        <ObjectCard
+                            door={selectedDoor}
+                            isSelected={true}
+                            imageUrl={doorImageUrl}
+                            selectedFinishId={selectedFinishId}
+                            onFinishSelect={handleSelectFinish}
+                        />
+                        <DoorDetails door={selectedDoor} />
                         <div className="text-center mt-4">
                             <div className="h-5 flex items-center justify-center">
                                 <button
                                     onClick={handleChangeDoor}
                                     className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
                                 >
-                                    Change Door
+                                    {t('main.changeDoor')}
                                 </button>
                             </div>
                         </div>
                     </div>
                     <div className="flex flex-col">
-                        <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Upload Your Space</h2>
+                        <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">{t('main.uploadSpace')}</h2>
                         <ImageUploader 
                             id="scene-uploader"
-                            onFileSelect={setSceneImage}
+                            onFileSelect={handleSceneUpload}
                             imageUrl={sceneImageUrl}
                         />
                     </div>
                 </div>
                 <div className="text-center mt-10 min-h-[4rem] flex flex-col justify-center items-center">
                     <p className="text-zinc-500 animate-fade-in">
-                        Now, upload a photo of your space to see the door in it.
+                        {t('main.uploadHint')}
                     </p>
                 </div>
             </div>
@@ -381,8 +813,8 @@ const App: React.FC = () => {
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8 items-stretch">
           {/* Door Column */}
           <div className="md:col-span-1 flex flex-col">
-            <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Door</h2>
-            <div className="flex-grow flex items-center justify-center">
+            <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">{t('main.door')}</h2>
+            <div className="flex-grow flex flex-col items-center justify-center">
               <div 
                   draggable="true" 
                   onDragStart={(e) => {
@@ -392,7 +824,21 @@ const App: React.FC = () => {
                   onTouchStart={handleTouchStart}
                   className="cursor-move w-full max-w-xs"
               >
-                  <ObjectCard door={selectedDoor!} isSelected={true} />
+                  <ObjectCard
+                      door={selectedDoor!}
+                      isSelected={true}
+                      imageUrl={doorImageUrl}
+                      selectedFinishId={selectedFinishId}
+                      onFinishSelect={handleSelectFinish}
+                  />
+              </div>
+              <div className="w-full max-w-xs">
+                  <DoorDetails door={selectedDoor!} />
+                  <DoorConfigurationPanel
+                    configuration={doorConfiguration}
+                    onChange={setDoorConfiguration}
+                    disabled={isLoading}
+                  />
               </div>
             </div>
             <div className="text-center mt-4">
@@ -401,20 +847,21 @@ const App: React.FC = () => {
                     onClick={handleChangeDoor}
                     className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
                 >
-                    Change Door
+                    {t('main.changeDoor')}
                 </button>
                </div>
             </div>
           </div>
           {/* Scene Column */}
           <div className="md:col-span-2 flex flex-col">
-            <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Your Space</h2>
+            <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">{t('main.yourSpace')}</h2>
             <div className="flex-grow flex items-center justify-center">
               <ImageUploader 
                   ref={sceneImgRef}
                   id="scene-uploader" 
-                  onFileSelect={setSceneImage} 
+                  onFileSelect={handleSceneUpload} 
                   imageUrl={sceneImageUrl}
+                  ingestionNotices={currentSceneVersion?.generation ? [] : sceneIngestionNotices}
                   isDropZone={!!sceneImage && !isLoading}
                   onProductDrop={handleDoorDrop}
                   persistedOrbPosition={persistedOrbPosition}
@@ -422,32 +869,202 @@ const App: React.FC = () => {
                   onDebugClick={() => setIsDebugModalOpen(true)}
                   isTouchHovering={isHoveringDropZone}
                   touchOrbPosition={touchOrbPosition}
+                  placementQuad={isLoading ? null : placementQuad}
+                  onPlacementQuadChange={setPlacementQuad}
+                  onCalibrationLineChange={isCalibrating && !isLoading ? setCalibrationLine : undefined}
+                  inpaintPreview={isMaskedMode && !isLoading ? { base: inpaintPreviewBase, strokes: maskStrokes } : null}
+                  onInpaintStrokesChange={isMaskedMode && isBrushing && !isLoading ? setMaskStrokes : undefined}
+                  brushRadiusPercent={brushRadiusPercent}
+                  calibrationLine={calibrationLine}
+                  calibrationLabel={referenceLengthMm > 0 ? t('calibration.lineLabel', { length: referenceLengthCm }) : undefined}
+                  sizeGuide={expectedDoorSize && showSizeGuide && !isCalibrating ? {
+                    center: placementQuad ? getQuadCentroid(placementQuad) : lastPlacementPoint ?? { xPercent: 50, yPercent: 55 },
+                    widthPercent: expectedDoorSize.widthPercent,
+                    heightPercent: expectedDoorSize.heightPercent,
+                    label: t('calibration.guideLabel', { width: selectedDoor!.dimensions!.width / 10, height: selectedDoor!.dimensions!.height / 10 }),
+                  } : null}
               />
             </div>
+            <CandidateGallery
+              candidates={getCurrentBatch(sceneHistory)}
+              currentId={sceneHistory.currentId}
+              onPromote={(id) => dispatchSceneHistory({ type: 'select', id })}
+              disabled={isLoading}
+            />
+            <VersionStrip
+              versions={getTimelineVersions(sceneHistory)}
+              currentId={sceneHistory.currentId}
+              onSelect={(id) => dispatchSceneHistory({ type: 'select', id })}
+              onUndo={() => dispatchSceneHistory({ type: 'undo' })}
+              onRedo={() => dispatchSceneHistory({ type: 'redo' })}
+              canUndo={canUndo(sceneHistory)}
+              canRedo={canRedo(sceneHistory)}
+              disabled={isLoading}
+            />
+            {currentSceneVersion?.generation?.doorConfiguration && (
+              <p className="text-sm text-zinc-500 text-center mt-3">
+                <span className="font-semibold text-zinc-700">
+                  {currentSceneVersion.generation.finish
+                    ? t('main.generatedDoorInFinish', { door: currentSceneVersion.generation.door.name, finish: currentSceneVersion.generation.finish.name })
+                    : t('main.generatedDoor', { door: currentSceneVersion.generation.door.name })}
+                </span>{' '}
+                {formatDoorConfiguration(currentSceneVersion.generation.doorConfiguration, t)}
+              </p>
+            )}
             <div className="text-center mt-4">
-              <div className="h-5 flex items-center justify-center">
+              <div className="min-h-5 flex flex-wrap items-center justify-center gap-x-6 gap-y-2">
                 {sceneImage && !isLoading && (
-                  <button
-                      onClick={handleChangeScene}
-                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
-                  >
-                      Change Space
-                  </button>
+                  <>
+                    {currentSceneVersion?.generation && (
+                      <button
+                          onClick={() => setIsCompareModalOpen(true)}
+                          className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                      >
+                          {t('main.compare')}
+                      </button>
+                    )}
+                    <button
+                        onClick={() => setIsCalibrating(!isCalibrating)}
+                        className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                    >
+                        {isCalibrating ? t('main.stopCalibrating') : t('main.calibrate')}
+                    </button>
+                    <button
+                        onClick={() => setPlacementQuad(placementQuad ? null : createDefaultQuad())}
+                        className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                    >
+                        {placementQuad ? t('main.removeOutline') : t('main.outline')}
+                    </button>
+                    <button
+                        onClick={() => {
+                          setIsMaskedMode(!isMaskedMode);
+                          setIsBrushing(false);
+                        }}
+                        className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                    >
+                        {isMaskedMode ? t('main.wholePhoto') : t('main.maskedMode')}
+                    </button>
+                    {placementQuad && (
+                      <button
+                          onClick={handlePlaceInOutline}
+                          className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                      >
+                          {t('main.placeInOutline')}
+                      </button>
+                    )}
+                    {predefinedDoors.length > 0 && (
+                      <button
+                          onClick={() => setIsBatchModalOpen(true)}
+                          className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                      >
+                          {t('main.tryEveryDoor')}
+                      </button>
+                    )}
+                    <label className="text-sm text-zinc-600 font-semibold flex items-center gap-2">
+                        {t('main.variations')}
+                        <select
+                            value={candidateCount}
+                            onChange={(e) => setCandidateCount(Number(e.target.value))}
+                            className="bg-white border border-zinc-300 rounded-md py-0.5 px-1 font-normal text-zinc-800"
+                            aria-label={t('main.variationsLabel')}
+                        >
+                            {CANDIDATE_COUNT_OPTIONS.map(count => <option key={count} value={count}>{formatNumber(count)}</option>)}
+                        </select>
+                    </label>
+                    <button
+                        onClick={handleChangeScene}
+                        className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                    >
+                        {t('main.changeSpace')}
+                    </button>
+                  </>
                 )}
               </div>
+              {sceneImage && !isLoading && (
+                <PlacementModePicker mode={placementMode} onChange={setPlacementMode} />
+              )}
+              {sceneImage && !isLoading && (
+                <CalibrationPanel
+                  isCalibrating={isCalibrating}
+                  hasLine={!!calibrationLine}
+                  lengthCm={referenceLengthCm}
+                  onLengthChange={setReferenceLengthCm}
+                  onDone={() => setIsCalibrating(false)}
+                  onClear={handleClearCalibration}
+                  expectedSize={expectedDoorSize}
+                  hasDoorDimensions={!!selectedDoor?.dimensions}
+                  showSizeGuide={showSizeGuide}
+                  onToggleSizeGuide={() => setShowSizeGuide(!showSizeGuide)}
+                />
+              )}
+              {sceneImage && !isLoading && isMaskedMode && (
+                <InpaintPanel
+                  isBrushing={isBrushing}
+                  onToggleBrushing={() => {
+                    setIsBrushing(!isBrushing);
+                    setIsCalibrating(false);
+                  }}
+                  brushRadiusPercent={brushRadiusPercent}
+                  onBrushRadiusChange={setBrushRadiusPercent}
+                  strokeCount={maskStrokes.length}
+                  onClearStrokes={() => setMaskStrokes([])}
+                  hasBase={!!inpaintPreviewBase}
+                />
+              )}
             </div>
           </div>
         </div>
         <div className="text-center mt-10 min-h-[8rem] flex flex-col justify-center items-center">
            {isLoading ? (
              <div className="animate-fade-in">
-                <Spinner />
-                <p className="text-xl mt-4 text-zinc-600 transition-opacity duration-500">{loadingMessages[loadingMessageIndex]}</p>
+                {generationProgress ? (
+                  <GenerationStepper progress={generationProgress} elapsedMs={generationElapsedMs} startedAt={generationStartedAt} />
+                ) : (
+                  <Spinner />
+                )}
+                {retryNotice && (
+                  <p className="text-sm mt-2 text-yellow-800">
+                    {t('retry.notice', {
+                      reason: t(`retry.reason.${retryNotice.reason}`, { status: retryNotice.status ?? '' }),
+                      // The pipeline's retried steps share their names with the progress stages.
+                      step: t(`stage.${retryNotice.step}` as MessageKey),
+                      attempt: retryNotice.attempt,
+                      maxAttempts: retryNotice.maxAttempts,
+                    })}
+                  </p>
+                )}
+                <button
+                    onClick={handleCancelGeneration}
+                    className="mt-4 text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                >
+                    {t('main.cancel')}
+                </button>
              </div>
            ) : (
+             <>
+             {generationWarnings.length > 0 && (
+               <div className="mb-4 max-w-2xl text-sm text-yellow-800 bg-yellow-100 border border-yellow-300 rounded-md p-3 animate-fade-in">
+                 {generationWarnings.map(warning => <p key={warning.kind}>{t(`generationWarning.${warning.kind}`)}</p>)}
+                 <div className="mt-2 flex justify-center gap-6">
+                   <button
+                       onClick={handleRetryPlacement}
+                       className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                   >
+                       {t('main.retryPlacement')}
+                   </button>
+                   <button
+                       onClick={() => setGenerationWarnings([])}
+                       className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                   >
+                       {t('main.dismiss')}
+                   </button>
+                 </div>
+               </div>
+             )}
              <p className="text-zinc-500 animate-fade-in">
-                Drag the door onto a location in your photo, or simply click where you want it.
+                {placementQuad ? t('main.outlineHint') : t('main.dropHint')}
              </p>
+             </>
            )}
         </div>
       </div>
@@ -461,6 +1078,16 @@ const App: React.FC = () => {
         position={touchGhostPosition}
       />
       <div className="flex flex-col items-center gap-8 w-full">
+        <div className="w-full flex justify-end items-center gap-3 text-sm">
+          <LanguageSwitcher />
+          <span className="text-zinc-500 truncate max-w-xs" title={currentProjectName}>{currentProjectName}</span>
+          <button
+            onClick={() => setIsProjectsModalOpen(true)}
+            className="text-blue-600 hover:text-blue-800 font-semibold"
+          >
+            {t('projects.button')}
+          </button>
+        </div>
         <Header />
         <main className="w-full">
           {renderContent()}
@@ -471,6 +1098,40 @@ const App: React.FC = () => {
         onClose={() => setIsDebugModalOpen(false)}
         imageUrl={debugImageUrl}
         prompt={debugPrompt}
+        promptTemplates={debugPromptTemplates}
+        cacheLookups={debugCacheLookups}
+      />
+      <CompareModal
+        isOpen={isCompareModalOpen && !!currentSceneVersion?.generation}
+        onClose={() => setIsCompareModalOpen(false)}
+        beforeFile={originalSceneImage}
+        afterFile={sceneImage}
+      />
+      <ProjectsModal
+        isOpen={isProjectsModalOpen}
+        onClose={() => setIsProjectsModalOpen(false)}
+        currentProjectId={currentProjectId}
+        onOpenProject={handleOpenProject}
+        onNewProject={handleNewProject}
+        onDeleteProject={handleDeleteProject}
+        onRenamed={(id, name) => {
+          if (id === currentProjectId) setCurrentProjectName(name);
+        }}
+      />
+      <BatchModal
+        isOpen={isBatchModalOpen}
+        onClose={() => setIsBatchModalOpen(false)}
+        doors={predefinedDoors}
+        sceneImage={sceneImage}
+        sceneVersionId={currentSceneVersion?.id ?? null}
+        point={batchPoint}
+        quad={placementQuad ?? undefined}
+        placementMode={placementMode}
+        doorConfiguration={doorConfiguration}
+        inpaintRegion={batchPoint ? getInpaintRegion(batchPoint) : undefined}
+        getExpectedDoorSize={getExpectedDoorSize}
+        hasSceneVersion={hasSceneVersion}
+        onUseResult={handleUseBatchResult}
       />
     </div>
   );
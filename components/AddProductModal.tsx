@@ -2,8 +2,12 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ImageUploader from './ImageUploader';
+import DoorCutoutEditor from './DoorCutoutEditor';
+import IngestionNotices from './IngestionNotices';
+import { IngestionNotice } from '../services/imageIngestion';
+import { useI18n } from '../i18n';
 
 interface AddProductModalProps {
   isOpen: boolean;
@@ -18,6 +22,15 @@ const CloseIcon = () => (
 );
 
 const AddProductModal: React.FC<AddProductModalProps> = ({ isOpen, onClose, onFileSelect }) => {
+  const { t } = useI18n();
+  // The photo being cleaned up; the uploader is shown until one is picked.
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [pendingNotices, setPendingNotices] = useState<IngestionNotice[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) setPendingFile(null);
+  }, [isOpen]);
+
   if (!isOpen) {
     return null;
   }
@@ -26,7 +39,12 @@ const AddProductModal: React.FC<AddProductModalProps> = ({ isOpen, onClose, onFi
     e.stopPropagation();
   };
   
-  const handleFileUploaded = (file: File) => {
+  const handleFilePicked = (file: File, notices: IngestionNotice[]) => {
+      setPendingFile(file);
+      setPendingNotices(notices);
+  };
+
+  const handleCutoutAccepted = (file: File) => {
       onFileSelect(file);
       // No need to call onClose here, as the parent component will handle it 
       // in the onFileSelect callback for better state flow control.
@@ -40,21 +58,28 @@ const AddProductModal: React.FC<AddProductModalProps> = ({ isOpen, onClose, onFi
       role="dialog"
     >
       <div 
-        className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6 md:p-8 relative transform transition-all"
+        className={`bg-white rounded-xl shadow-2xl w-full ${pendingFile ? 'max-w-2xl' : 'max-w-lg'} p-6 md:p-8 relative transform transition-all`}
         onClick={handleModalContentClick}
         role="document"
       >
         <button 
           onClick={onClose}
-          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors"
-          aria-label="Close modal"
+          className="absolute top-4 end-4 text-zinc-500 hover:text-zinc-800 transition-colors"
+          aria-label={t('app.closeModal')}
         >
           <CloseIcon />
         </button>
         <div className="text-center">
-          <h2 className="text-2xl font-extrabold mb-4 text-zinc-800">Add Your Own Door</h2>
+          <h2 className="text-2xl font-extrabold mb-4 text-zinc-800">{t('addDoor.title')}</h2>
         </div>
-        <ImageUploader id="custom-product-uploader" onFileSelect={onFileSelect} imageUrl={null} />
+        {pendingFile ? (
+          <>
+            <IngestionNotices notices={pendingNotices} className="mb-3" />
+            <DoorCutoutEditor file={pendingFile} onAccept={handleCutoutAccepted} onCancel={() => setPendingFile(null)} />
+          </>
+        ) : (
+          <ImageUploader id="custom-product-uploader" onFileSelect={handleFilePicked} imageUrl={null} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Door, DoorConfiguration, ExpectedDoorSize, InpaintRegion, PlacementMode, PlacementQuad, RelativePoint } from '../types';
+import { DoorBatchJob, runDoorBatch } from '../services/doorBatch';
+import Spinner from './Spinner';
+import { useI18n } from '../i18n';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+
+interface BatchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  doors: Door[];
+  sceneImage: File | null;
+  /** Id of the scene version the batch renders onto. */
+  sceneVersionId: string | null;
+  point: RelativePoint | null;
+  quad?: PlacementQuad;
+  placementMode: PlacementMode;
+  doorConfiguration: DoorConfiguration;
+  inpaintRegion?: InpaintRegion;
+  getExpectedDoorSize?: (door: Door) => ExpectedDoorSize | undefined;
+  /** Whether a scene version is still in the history; results on a removed one cannot be used. */
+  hasSceneVersion: (id: string) => boolean;
+  onUseResult: (job: DoorBatchJob) => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const BatchResultImage: React.FC<{ image: Blob; alt: string }> = ({ image, alt }) => {
+  const url = useObjectUrl(image);
+  return url ? <img src={url} alt={alt} className="w-full h-full object-contain" /> : null;
+};
+
+/**
+ * Renders the current scene and placement with many doors and shows the
+ * results as a contact sheet. The batch keeps running while the modal is
+ * closed, since this component stays mounted.
+ */
+const BatchModal: React.FC<BatchModalProps> = ({
+  isOpen,
+  onClose,
+  doors,
+  sceneImage,
+  sceneVersionId,
+  point,
+  quad,
+  placementMode,
+  doorConfiguration,
+  inpaintRegion,
+  getExpectedDoorSize,
+  hasSceneVersion,
+  onUseResult,
+}) => {
+  const { t } = useI18n();
+  // Track exclusions rather than selections so doors loaded later start out selected.
+  const [excludedIds, setExcludedIds] = useState<Set<number>>(() => new Set());
+  const [jobs, setJobs] = useState<DoorBatchJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop any running batch when the component goes away.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const isSelected = (door: Door) => !excludedIds.has(door.id);
+
+  const toggleDoor = (id: number) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleStart = async () => {
+    if (!sceneImage || !point || !sceneVersionId) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runDoorBatch({
+        doors: doors.filter(isSelected),
+        sceneImage,
+        sceneVersionId,
+        point,
+        quad,
+        placementMode,
+        doorConfiguration,
+        inpaintRegion,
+        getExpectedDoorSize,
+        signal: controller.signal,
+        onUpdate: setJobs,
+      });
+    } finally {
+      setIsRunning(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleCancel = () => abortControllerRef.current?.abort();
+
+  const finishedCount = jobs.filter(job => job.status !== 'queued' && job.status !== 'running').length;
+  const progressPercent = jobs.length > 0 ? (finishedCount / jobs.length) * 100 : 0;
+  const selectedCount = doors.filter(isSelected).length;
+  const canStart = !!sceneImage && !!point && selectedCount > 0;
+  // Every job of a batch shares its scene.
+  const isSceneGone = jobs.length > 0 && !hasSceneVersion(jobs[0].sceneVersionId);
+
+  const renderSelection = () => (
+    <>
+      <div className="flex items-center justify-between mb-3 text-sm">
+        <span className="text-zinc-600">{t('batch.selected', { selected: selectedCount, total: doors.length })}</span>
+        <div className="flex gap-4">
+          <button onClick={() => setExcludedIds(new Set())} className="text-blue-600 hover:text-blue-800 font-semibold">{t('batch.selectAll')}</button>
+          <button onClick={() => setExcludedIds(new Set(doors.map(door => door.id)))} className="text-blue-600 hover:text-blue-800 font-semibold">{t('batch.selectNone')}</button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 overflow-y-auto">
+        {doors.map(door => {
+          const checked = isSelected(door);
+          return (
+            <label
+              key={door.id}
+              className={`flex items-center gap-2 p-2 rounded-md border cursor-pointer transition-colors ${checked ? 'border-blue-500 bg-blue-50' : 'border-zinc-200 hover:border-zinc-300'}`}
+            >
+              <input type="checkbox" checked={checked} onChange={() => toggleDoor(door.id)} />
+              <img src={door.imageUrl} alt="" className="w-10 h-10 object-contain bg-zinc-100 rounded" />
+              <span className="text-sm text-zinc-700 truncate">{door.name}</span>
+            </label>
+          );
+        })}
+      </div>
+      {!point && (
+        <p className="text-sm text-zinc-500 mt-3">{t('batch.needsPlacement')}</p>
+      )}
+      <div className="flex justify-center mt-6">
+        <button
+          onClick={handleStart}
+          disabled={!canStart}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t(selectedCount === 1 ? 'batch.renderOne' : 'batch.renderMany', { count: selectedCount })}
+        </button>
+      </div>
+    </>
+  );
+
+  const renderContactSheet = () => (
+    <>
+      <div className="mb-4">
+        <div className="flex items-center justify-between text-sm text-zinc-600 mb-1">
+          <span>{t('batch.finished', { finished: finishedCount, total: jobs.length })}</span>
+          {isRunning ? (
+            <button onClick={handleCancel} className="text-red-600 hover:text-red-800 font-semibold">{t('batch.cancel')}</button>
+          ) : (
+            <button onClick={() => setJobs([])} className="text-blue-600 hover:text-blue-800 font-semibold">{t('batch.newBatch')}</button>
+          )}
+        </div>
+        <div className="w-full h-2 bg-zinc-200 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${progressPercent}%` }} />
+        </div>
+      </div>
+      {isSceneGone && (
+        <p className="text-sm text-yellow-800 bg-yellow-100 border border-yellow-300 rounded-lg p-3 mb-4" role="alert">{t('batch.sceneGone')}</p>
+      )}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 overflow-y-auto">
+        {jobs.map(job => (
+          <figure key={job.door.id} className="bg-zinc-50 border border-zinc-200 rounded-lg overflow-hidden flex flex-col">
+            <div className="aspect-video bg-zinc-100 flex items-center justify-center">
+              {job.status === 'done' && job.resultImage ? (
+                <BatchResultImage image={job.resultImage} alt={t('batch.resultAlt', { door: job.door.name })} />
+              ) : job.status === 'running' ? (
+                <div className="scale-50"><Spinner /></div>
+              ) : (
+                <span
+                  className={`text-sm px-2 text-center ${job.status === 'failed' ? 'text-red-600' : 'text-zinc-500'}`}
+                  title={job.error?.message}
+                >
+                  {job.status === 'failed' && job.error ? t(`generationError.${job.error.kind}.title`) : t(`batch.status.${job.status}`)}
+                </span>
+              )}
+            </div>
+            <figcaption className="p-2 flex items-center justify-between gap-2">
+              <span className="text-sm font-semibold text-zinc-700 truncate">{job.door.name}</span>
+              {job.status === 'done' && (
+                <button
+                  onClick={() => onUseResult(job)}
+                  disabled={isSceneGone}
+                  className="text-xs text-blue-600 hover:text-blue-800 font-semibold flex-shrink-0 disabled:text-zinc-400 disabled:cursor-not-allowed"
+                >
+                  {t('batch.useThis')}
+                </button>
+              )}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+    </>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-5xl p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 end-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
+          aria-label={t('app.closeModal')}
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center mb-4 flex-shrink-0">
+          <h2 className="text-2xl font-extrabold text-zinc-800">{t('batch.title')}</h2>
+        </div>
+        {jobs.length > 0 ? renderContactSheet() : renderSelection()}
+      </div>
+    </div>
+  );
+};
+
+export default BatchModal;
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { RelativePoint } from '../types';
+import { useI18n } from '../i18n';
+import { OverlayImageRect, useOverlayCoordinates } from '../hooks/useOverlayCoordinates';
+
+export interface CalibrationLine {
+  start: RelativePoint;
+  end: RelativePoint;
+}
+
+interface CalibrationOverlayProps {
+  line: CalibrationLine | null;
+  imageRect: OverlayImageRect;
+  onChange: (line: CalibrationLine) => void;
+  label?: string;
+}
+
+/**
+ * Overlay for drawing the reference line used for scale calibration. Dragging
+ * on the photo draws a new line; the end handles adjust an existing one.
+ */
+const CalibrationOverlay: React.FC<CalibrationOverlayProps> = ({ line, imageRect, onChange, label }) => {
+  const { t } = useI18n();
+  const { overlayRef, toPixels, toPercent } = useOverlayCoordinates(imageRect);
+  const [dragEnd, setDragEnd] = useState<'start' | 'end' | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    const point = toPercent(e.clientX, e.clientY);
+    onChange({ start: point, end: point });
+    setDragEnd('end');
+  };
+
+  const startHandleDrag = (which: 'start' | 'end') => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    setDragEnd(which);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragEnd || !line) return;
+    onChange({ ...line, [dragEnd]: toPercent(e.clientX, e.clientY) });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragEnd) return;
+    e.stopPropagation();
+    setDragEnd(null);
+  };
+
+  const start = line && toPixels(line.start);
+  const end = line && toPixels(line.end);
+
+  return (
+    <div
+      ref={overlayRef}
+      className="absolute inset-0 z-10 cursor-crosshair"
+      onClick={(e) => e.stopPropagation()}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      style={{ touchAction: 'none' }}
+    >
+      {start && end && (
+        <>
+          <svg className="absolute inset-0 w-full h-full pointer-events-none">
+            <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="white" strokeWidth={5} strokeLinecap="round" />
+            <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="rgb(245, 158, 11)" strokeWidth={3} strokeLinecap="round" />
+          </svg>
+          {[{ which: 'start' as const, point: start }, { which: 'end' as const, point: end }].map(({ which, point }) => (
+            <div
+              key={which}
+              role="slider"
+              aria-label={t(which === 'start' ? 'calibration.lineStart' : 'calibration.lineEnd')}
+              className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-white border-2 border-amber-500 shadow-md cursor-grab active:cursor-grabbing"
+              style={{ left: point.x, top: point.y }}
+              onPointerDown={startHandleDrag(which)}
+            />
+          ))}
+          {label && (
+            <div
+              className="absolute -translate-x-1/2 -translate-y-full -mt-2 bg-amber-500 text-white text-xs font-semibold px-2 py-0.5 rounded shadow pointer-events-none"
+              style={{ left: (start.x + end.x) / 2, top: Math.min(start.y, end.y) }}
+            >
+              {label}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationOverlay;
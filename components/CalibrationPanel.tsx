@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ExpectedDoorSize } from '../types';
+import { useI18n } from '../i18n';
+
+interface CalibrationPanelProps {
+  isCalibrating: boolean;
+  hasLine: boolean;
+  lengthCm: string;
+  onLengthChange: (value: string) => void;
+  onDone: () => void;
+  onClear: () => void;
+  expectedSize: ExpectedDoorSize | null;
+  /** Whether the selected door has catalog dimensions to scale from. */
+  hasDoorDimensions: boolean;
+  showSizeGuide: boolean;
+  onToggleSizeGuide: () => void;
+}
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  isCalibrating,
+  hasLine,
+  lengthCm,
+  onLengthChange,
+  onDone,
+  onClear,
+  expectedSize,
+  hasDoorDimensions,
+  showSizeGuide,
+  onToggleSizeGuide,
+}) => {
+  const { t } = useI18n();
+
+  if (isCalibrating) {
+    return (
+      <div className="w-full mt-4 bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-start animate-fade-in">
+        <p className="text-amber-900 mb-3">
+          {t('calibration.instructions')}
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 font-semibold text-zinc-700">
+            {t('calibration.length')}
+            <input
+              type="number"
+              min="1"
+              step="0.5"
+              inputMode="decimal"
+              value={lengthCm}
+              onChange={(e) => onLengthChange(e.target.value)}
+              className="w-24 bg-white border border-zinc-300 rounded-md py-1 px-2 font-normal focus:outline-none focus:border-amber-500"
+              aria-label={t('calibration.lengthLabel')}
+            />
+            {t('calibration.cm')}
+          </label>
+          <button
+            onClick={onDone}
+            disabled={!hasLine || !(Number(lengthCm) > 0)}
+            className="bg-amber-500 hover:bg-amber-600 text-white font-semibold py-1 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('calibration.done')}
+          </button>
+          <button onClick={onClear} className="text-amber-800 hover:text-amber-950 font-semibold">
+            {t('calibration.clear')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!expectedSize) {
+    return hasLine && !hasDoorDimensions ? (
+      <p className="w-full mt-4 text-sm text-zinc-500">{t('calibration.noDimensions')}</p>
+    ) : null;
+  }
+
+  return (
+    <div className="w-full mt-4 flex flex-wrap items-center justify-center gap-x-4 gap-y-1 text-sm text-zinc-600 animate-fade-in">
+      <span>
+        {t('calibration.expectedSize')} <strong>{t('calibration.expectedSizeValue', { width: Math.round(expectedSize.widthPx), height: Math.round(expectedSize.heightPx) })}</strong>
+      </span>
+      <button onClick={onToggleSizeGuide} className="text-blue-600 hover:text-blue-800 font-semibold">
+        {t(showSizeGuide ? 'calibration.hideGuide' : 'calibration.showGuide')}
+      </button>
+      <button onClick={onClear} className="text-blue-600 hover:text-blue-800 font-semibold">
+        {t('calibration.clearCalibration')}
+      </button>
+    </div>
+  );
+};
+
+export default CalibrationPanel;
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { SceneVersion } from '../types';
+import { useI18n } from '../i18n';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+
+interface CandidateGalleryProps {
+  candidates: SceneVersion[];
+  currentId: string | null;
+  onPromote: (id: string) => void;
+  disabled?: boolean;
+}
+
+const CandidateImage: React.FC<{ file: File; alt: string }> = ({ file, alt }) => {
+  const url = useObjectUrl(file);
+  return url ? <img src={url} alt={alt} className="w-full h-full object-contain" /> : null;
+};
+
+/**
+ * The candidates generated for the current placement. Choosing one makes it
+ * the current scene; the others stay available here and in the history.
+ */
+const CandidateGallery: React.FC<CandidateGalleryProps> = ({ candidates, currentId, onPromote, disabled = false }) => {
+  const { t } = useI18n();
+
+  if (candidates.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="w-full mt-4 animate-fade-in">
+      <h3 className="text-sm font-semibold text-zinc-700 mb-2 text-start">{t('candidates.title')}</h3>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {candidates.map((candidate, index) => {
+          const isCurrent = candidate.id === currentId;
+          return (
+            <button
+              key={candidate.id}
+              onClick={() => onPromote(candidate.id)}
+              disabled={disabled || isCurrent}
+              aria-pressed={isCurrent}
+              className={`relative rounded-md overflow-hidden border-2 bg-zinc-100 aspect-video transition-all disabled:cursor-default ${isCurrent ? 'border-blue-500 shadow-md' : 'border-transparent hover:border-zinc-300'}`}
+            >
+              <CandidateImage file={candidate.file} alt={t('candidates.alt', { number: index + 1 })} />
+              <span className={`absolute bottom-1 start-1 text-xs font-semibold px-2 py-0.5 rounded ${isCurrent ? 'bg-blue-500 text-white' : 'bg-black bg-opacity-60 text-white'}`}>
+                {isCurrent ? t('candidates.inUse') : t('candidates.use', { number: index + 1 })}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CandidateGallery;
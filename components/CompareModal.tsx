@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useI18n } from '../i18n';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+
+interface CompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  beforeFile: File | null;
+  afterFile: File | null;
+}
+
+type CompareMode = 'slider' | 'flicker' | 'side-by-side';
+
+const FLICKER_INTERVAL_MS = 700;
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const COMPARE_MODES: CompareMode[] = ['slider', 'flicker', 'side-by-side'];
+
+const Caption: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = '' }) => (
+  <span className={`absolute top-2 bg-black bg-opacity-60 text-white text-xs font-semibold px-2 py-1 rounded pointer-events-none ${className}`}>
+    {children}
+  </span>
+);
+
+/**
+ * Compares the original upload with the current composite. Generated images are
+ * cropped back to the original's aspect ratio, so both are drawn into frames of
+ * that ratio and line up pixel for pixel apart from resolution.
+ */
+const CompareModal: React.FC<CompareModalProps> = ({ isOpen, onClose, beforeFile, afterFile }) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [splitPercent, setSplitPercent] = useState(50);
+  const [showAfter, setShowAfter] = useState(true);
+  const [isAutoFlicker, setIsAutoFlicker] = useState(false);
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+  const [isDraggingSplit, setIsDraggingSplit] = useState(false);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const beforeUrl = useObjectUrl(isOpen ? beforeFile : null);
+  const afterUrl = useObjectUrl(isOpen ? afterFile : null);
+
+  useEffect(() => {
+    if (!isAutoFlicker || mode !== 'flicker') return;
+    const interval = setInterval(() => setShowAfter(prev => !prev), FLICKER_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isAutoFlicker, mode]);
+
+  if (!isOpen || !beforeUrl || !afterUrl) {
+    return null;
+  }
+
+  const frameStyle: React.CSSProperties = { aspectRatio: aspectRatio ?? 16 / 9 };
+  const imageClasses = 'absolute inset-0 w-full h-full object-fill select-none';
+  const handleBeforeLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    if (naturalWidth && naturalHeight) setAspectRatio(naturalWidth / naturalHeight);
+  };
+
+  const updateSplit = (clientX: number) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setSplitPercent(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const renderSlider = () => (
+    <div
+      ref={frameRef}
+      className="relative w-full bg-zinc-100 rounded-lg overflow-hidden cursor-ew-resize"
+      style={{ ...frameStyle, touchAction: 'none' }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setIsDraggingSplit(true);
+        updateSplit(e.clientX);
+      }}
+      onPointerMove={(e) => isDraggingSplit && updateSplit(e.clientX)}
+      onPointerUp={() => setIsDraggingSplit(false)}
+      onPointerCancel={() => setIsDraggingSplit(false)}
+    >
+      <img src={beforeUrl} alt={t('compare.beforeAlt')} className={imageClasses} onLoad={handleBeforeLoad} draggable={false} />
+      <img
+        src={afterUrl}
+        alt={t('compare.afterAlt')}
+        className={imageClasses}
+        style={{ clipPath: `inset(0 0 0 ${splitPercent}%)` }}
+        draggable={false}
+      />
+      <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${splitPercent}%` }}>
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white shadow-lg border border-zinc-300" />
+      </div>
+      <Caption className="left-2">{t('compare.before')}</Caption>
+      <Caption className="right-2">{t('compare.after')}</Caption>
+    </div>
+  );
+
+  const renderFlicker = () => (
+    <div className="relative w-full bg-zinc-100 rounded-lg overflow-hidden" style={frameStyle}>
+      <img src={beforeUrl} alt={t('compare.beforeAlt')} className={imageClasses} onLoad={handleBeforeLoad} draggable={false} />
+      <img
+        src={afterUrl}
+        alt={t('compare.afterAlt')}
+        className={imageClasses}
+        style={{ opacity: showAfter ? 1 : 0 }}
+        draggable={false}
+      />
+      <Caption className="left-2">{t(showAfter ? 'compare.after' : 'compare.before')}</Caption>
+    </div>
+  );
+
+  const renderSideBySide = () => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div className="relative w-full bg-zinc-100 rounded-lg overflow-hidden" style={frameStyle}>
+        <img src={beforeUrl} alt={t('compare.beforeAlt')} className={imageClasses} onLoad={handleBeforeLoad} draggable={false} />
+        <Caption className="left-2">{t('compare.before')}</Caption>
+      </div>
+      <div className="relative w-full bg-zinc-100 rounded-lg overflow-hidden" style={frameStyle}>
+        <img src={afterUrl} alt={t('compare.afterAlt')} className={imageClasses} draggable={false} />
+        <Caption className="left-2">{t('compare.after')}</Caption>
+      </div>
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-5xl p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 end-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
+          aria-label={t('app.closeModal')}
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center mb-4 flex-shrink-0">
+          <h2 className="text-2xl font-extrabold text-zinc-800">{t('compare.title')}</h2>
+        </div>
+        <div className="flex justify-center mb-4 flex-shrink-0">
+          <div className="flex rounded-md border border-zinc-300 overflow-hidden" role="group" aria-label={t('compare.mode')}>
+            {COMPARE_MODES.map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-4 py-1.5 text-sm font-semibold transition-colors ${mode === option ? 'bg-zinc-800 text-white' : 'bg-white text-zinc-600 hover:bg-zinc-100'}`}
+                aria-pressed={mode === option}
+              >
+                {t(`compare.mode.${option}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-y-auto">
+          {mode === 'slider' && renderSlider()}
+          {mode === 'flicker' && renderFlicker()}
+          {mode === 'side-by-side' && renderSideBySide()}
+        </div>
+        <div className="flex justify-center items-center gap-4 mt-4 flex-shrink-0 text-sm">
+          {mode === 'slider' && (
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(splitPercent)}
+              onChange={(e) => setSplitPercent(Number(e.target.value))}
+              className="w-64"
+              // Matches the split line, which runs left to right in either language.
+              dir="ltr"
+              aria-label={t('compare.split')}
+            />
+          )}
+          {mode === 'flicker' && (
+            <>
+              <button
+                onClick={() => setShowAfter(!showAfter)}
+                disabled={isAutoFlicker}
+                className="bg-zinc-800 hover:bg-zinc-900 text-white font-semibold py-1.5 px-4 rounded-md transition-colors disabled:opacity-50"
+              >
+                {t(showAfter ? 'compare.showBefore' : 'compare.showAfter')}
+              </button>
+              <label className="flex items-center gap-2 text-zinc-700 font-semibold">
+                <input type="checkbox" checked={isAutoFlicker} onChange={(e) => setIsAutoFlicker(e.target.checked)} />
+                {t('compare.autoFlicker')}
+              </label>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareModal;
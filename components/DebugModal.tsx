@@ -4,12 +4,18 @@
 */
 
 import React from 'react';
+import { CacheLookup, PromptTemplateRefs } from '../types';
+import { Translate, useI18n } from '../i18n';
 
 interface DebugModalProps {
   isOpen: boolean;
   onClose: () => void;
   imageUrl: string | null;
   prompt: string | null;
+  /** Template versions behind the prompts; null for results saved before versioning. */
+  promptTemplates: PromptTemplateRefs | null;
+  /** Null for results saved before the generation cache existed. */
+  cacheLookups: CacheLookup[] | null;
 }
 
 const CloseIcon = () => (
@@ -18,7 +24,15 @@ const CloseIcon = () => (
     </svg>
 );
 
-const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prompt }) => {
+const getLookupLabel = ({ stage, image, candidateIndex }: CacheLookup, t: Translate): string => {
+  if (stage === 'resize') return t(`debug.cache.resize.${image ?? 'scene'}`);
+  if (stage === 'compose') return t('debug.cache.compose', { number: (candidateIndex ?? 0) + 1 });
+  return t('debug.cache.describe');
+};
+
+const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prompt, promptTemplates, cacheLookups }) => {
+  const { t } = useI18n();
+
   if (!isOpen || !imageUrl) {
     return null;
   }
@@ -42,31 +56,58 @@ const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prom
       >
         <button 
           onClick={onClose}
-          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
-          aria-label="Close modal"
+          className="absolute top-4 end-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
+          aria-label={t('app.closeModal')}
         >
           <CloseIcon />
         </button>
         <div className="text-center mb-4 flex-shrink-0">
-          <h2 className="text-2xl font-extrabold text-zinc-800">Debug View</h2>
+          <h2 className="text-2xl font-extrabold text-zinc-800">{t('debug.title')}</h2>
         </div>
         
         <div className="flex flex-col gap-4 overflow-y-auto">
           <div>
-            <p className="text-zinc-600 mb-2">This is the image sent to the AI, with a red marker indicating the placement.</p>
+            <p className="text-zinc-600 mb-2">{t('debug.intro')}</p>
             <div className="rounded-lg overflow-hidden bg-zinc-100">
-                <img src={imageUrl} alt="Debug view of marked scene" className="w-full h-full object-contain" />
+                <img src={imageUrl} alt={t('debug.imageAlt')} className="w-full h-full object-contain" />
             </div>
           </div>
           
           {prompt && (
             <div>
-                <h3 className="text-lg font-bold text-zinc-800 mb-2">Final Prompt to Image Model</h3>
-                <pre className="bg-zinc-100 text-zinc-700 p-4 rounded-lg text-xs whitespace-pre-wrap">
+                <h3 className="text-lg font-bold text-zinc-800 mb-2">{t('debug.promptTitle')}</h3>
+                <p className="text-sm text-zinc-600 mb-2">
+                    {promptTemplates
+                      ? <>{t('debug.templates')} <code>{promptTemplates.describe}</code> {t('debug.describeTemplate')}{t('app.listSeparator')}<code>{promptTemplates.composite}</code> {t('debug.compositeTemplate')}</>
+                      : t('debug.noTemplates')}
+                </p>
+                <pre className="bg-zinc-100 text-zinc-700 p-4 rounded-lg text-xs whitespace-pre-wrap" dir="ltr">
                     <code>{prompt}</code>
                 </pre>
             </div>
           )}
+
+          <div>
+            <h3 className="text-lg font-bold text-zinc-800 mb-2">{t('debug.cacheTitle')}</h3>
+            {cacheLookups ? (
+              <>
+                <p className="text-sm text-zinc-600 mb-2">{t('debug.cacheIntro')}</p>
+                <ul className="text-sm divide-y divide-zinc-200 border border-zinc-200 rounded-lg">
+                  {cacheLookups.map(lookup => (
+                    <li key={`${lookup.stage}-${lookup.image}-${lookup.candidateIndex}-${lookup.key}`} className="flex items-center gap-3 px-3 py-2">
+                      <span className="text-zinc-700 flex-grow">{getLookupLabel(lookup, t)}</span>
+                      <code className="text-xs text-zinc-400" dir="ltr" title={lookup.key}>{lookup.key.slice(0, 12)}</code>
+                      <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${lookup.hit ? 'bg-green-100 text-green-800' : 'bg-zinc-100 text-zinc-600'}`}>
+                        {lookup.hit ? t('debug.cache.hit') : t('debug.cache.miss')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <p className="text-sm text-zinc-600">{t('debug.noCache')}</p>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { DoorConfiguration } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+
+interface DoorConfigurationPanelProps {
+  configuration: DoorConfiguration;
+  onChange: (configuration: DoorConfiguration) => void;
+  disabled?: boolean;
+}
+
+type SelectOption = Exclude<keyof DoorConfiguration, 'transom'>;
+
+// The choices for each <select>, in the order they are listed.
+const selectValues: { [K in SelectOption]: DoorConfiguration[K][] } = {
+  hingeSide: ['left', 'right'],
+  swing: ['inward', 'outward'],
+  openState: ['closed', 'ajar', 'open'],
+  handleType: ['lever', 'knob', 'pull-bar', 'flush-pull'],
+  handleFinish: ['brushed-steel', 'polished-chrome', 'matte-black', 'brass', 'bronze'],
+  sidelight: ['none', 'left', 'right', 'both'],
+};
+
+/** Hinge, swing, state, hardware and glazing options for the door being placed. */
+const DoorConfigurationPanel: React.FC<DoorConfigurationPanelProps> = ({ configuration, onChange, disabled }) => {
+  const { t } = useI18n();
+  const update = (changes: Partial<DoorConfiguration>) => onChange({ ...configuration, ...changes });
+
+  // One labelled <select> per option; labels and choices are under `config.<option>`.
+  const renderSelect = (key: SelectOption) => (
+    <React.Fragment key={key}>
+      <label htmlFor={`door-config-${key}`} className="font-semibold text-zinc-500 self-center">{t(`config.${key}`)}</label>
+      <select
+        id={`door-config-${key}`}
+        value={configuration[key]}
+        onChange={(e) => update({ [key]: e.target.value } as Partial<DoorConfiguration>)}
+        disabled={disabled}
+        className="bg-white border border-zinc-300 rounded-md py-0.5 px-1 text-zinc-800 disabled:opacity-50"
+      >
+        {selectValues[key].map((value: string) => (
+          <option key={value} value={value}>{t(`config.${key}.${value}` as MessageKey)}</option>
+        ))}
+      </select>
+    </React.Fragment>
+  );
+
+  return (
+    <div className="mt-4 bg-zinc-50 border border-zinc-200 rounded-lg p-4 text-sm">
+      <h3 className="font-bold text-zinc-800 mb-3">{t('config.title')}</h3>
+      <div className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-2">
+        {(Object.keys(selectValues) as SelectOption[]).map(renderSelect)}
+        <span className="font-semibold text-zinc-500">{t('config.transom')}</span>
+        <label className="flex items-center gap-2 text-zinc-800">
+          <input
+            type="checkbox"
+            checked={configuration.transom}
+            onChange={(e) => update({ transom: e.target.checked })}
+            disabled={disabled}
+          />
+          {t('config.transomOption')}
+        </label>
+      </div>
+      <p className="mt-3 text-zinc-500">{t('config.sidesNote')}</p>
+    </div>
+  );
+};
+
+export default DoorConfigurationPanel;
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { loadImage } from '../services/imageUtils';
+import {
+  DEFAULT_CUTOUT_TOLERANCE,
+  ForegroundMask,
+  EmptyCutoutError,
+  createCutoutFile,
+  detectForegroundMask,
+  getWorkingImageData,
+  paintMask,
+} from '../services/backgroundRemoval';
+import Spinner from './Spinner';
+import { useI18n } from '../i18n';
+
+interface DoorCutoutEditorProps {
+  file: File;
+  /** Called with the trimmed, transparent cutout, or the untouched file if the user skips it. */
+  onAccept: (file: File) => void;
+  onCancel: () => void;
+}
+
+type BrushMode = 'keep' | 'remove';
+
+// Brush radius as a fraction of the preview's longer side.
+const BRUSH_RADIUS_FRACTION = 0.025;
+// Removed areas stay faintly visible so they can be painted back.
+const REMOVED_PREVIEW_ALPHA = 40;
+
+/**
+ * Preview of the automatic background removal, with a brush to keep or
+ * remove parts of the photo before the door is accepted.
+ */
+const DoorCutoutEditor: React.FC<DoorCutoutEditorProps> = ({ file, onAccept, onCancel }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const imageDataRef = useRef<ImageData | null>(null);
+  const maskRef = useRef<ForegroundMask | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  // Kept apart from `error` so the message follows a change of language without reloading the photo.
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [tolerance, setTolerance] = useState(DEFAULT_CUTOUT_TOLERANCE);
+  const [brushMode, setBrushMode] = useState<BrushMode>('keep');
+  const [isPainting, setIsPainting] = useState(false);
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const imageData = imageDataRef.current;
+    const mask = maskRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !imageData || !mask || !ctx) return;
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    const preview = new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height);
+    for (let i = 0; i < mask.data.length; i++) {
+      preview.data[i * 4 + 3] = Math.min(imageData.data[i * 4 + 3], mask.data[i] > 0 ? 255 : REMOVED_PREVIEW_ALPHA);
+    }
+    ctx.putImageData(preview, 0, 0);
+  }, []);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsReady(false);
+    setError(null);
+    setLoadError(null);
+    loadImage(file)
+      .then(image => {
+        if (isCancelled) return;
+        imageRef.current = image;
+        imageDataRef.current = getWorkingImageData(image);
+        maskRef.current = detectForegroundMask(imageDataRef.current, DEFAULT_CUTOUT_TOLERANCE);
+        setTolerance(DEFAULT_CUTOUT_TOLERANCE);
+        setIsReady(true);
+      })
+      .catch(err => {
+        if (isCancelled) return;
+        setLoadError(err instanceof Error ? err.message : '');
+        console.error(err);
+      });
+    return () => { isCancelled = true; };
+  }, [file]);
+
+  useEffect(() => {
+    if (isReady) redraw();
+  }, [isReady, redraw]);
+
+  const handleToleranceChange = (value: number) => {
+    // Re-detecting discards touch-ups; the slider is meant to be set before painting.
+    setTolerance(value);
+    if (!imageDataRef.current) return;
+    maskRef.current = detectForegroundMask(imageDataRef.current, value);
+    redraw();
+  };
+
+  const paintAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const mask = maskRef.current;
+    if (!canvas || !mask) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * mask.width;
+    const y = ((e.clientY - rect.top) / rect.height) * mask.height;
+    const radius = Math.max(mask.width, mask.height) * BRUSH_RADIUS_FRACTION;
+    paintMask(mask, x, y, radius, brushMode === 'keep' ? 255 : 0);
+    redraw();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsPainting(true);
+    paintAt(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isPainting) paintAt(e);
+  };
+
+  const handleAccept = async () => {
+    if (!imageRef.current || !maskRef.current) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      onAccept(await createCutoutFile(imageRef.current, maskRef.current, file.name));
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(t('app.unknownError')));
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const brushButtonClass = (mode: BrushMode) =>
+    `py-1 px-3 rounded-md font-semibold transition-colors ${brushMode === mode ? 'bg-zinc-800 text-white' : 'bg-zinc-100 text-zinc-700 hover:bg-zinc-200'}`;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-zinc-600">
+        {t('cutout.intro', { keep: t('cutout.keep'), remove: t('cutout.remove') })}
+      </p>
+      <div
+        className="relative flex items-center justify-center rounded-lg border border-zinc-200 p-2 min-h-[12rem]"
+        style={{ backgroundImage: 'repeating-conic-gradient(#e4e4e7 0% 25%, #ffffff 0% 50%)', backgroundSize: '20px 20px' }}
+      >
+        {!isReady && loadError === null && <Spinner />}
+        <canvas
+          ref={canvasRef}
+          className={`max-w-full max-h-80 cursor-crosshair ${isReady ? '' : 'hidden'}`}
+          style={{ touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setIsPainting(false)}
+          onPointerCancel={() => setIsPainting(false)}
+          aria-label={t('cutout.preview')}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-semibold text-zinc-700">{t('cutout.brush')}</span>
+        <button onClick={() => setBrushMode('keep')} className={brushButtonClass('keep')}>{t('cutout.keep')}</button>
+        <button onClick={() => setBrushMode('remove')} className={brushButtonClass('remove')}>{t('cutout.remove')}</button>
+        <label className="flex items-center gap-2 font-semibold text-zinc-700 ms-auto">
+          {t('cutout.sensitivity')}
+          <input
+            type="range"
+            min={4}
+            max={48}
+            value={tolerance}
+            onChange={(e) => handleToleranceChange(Number(e.target.value))}
+            disabled={!isReady}
+            aria-label={t('cutout.sensitivityLabel')}
+          />
+        </label>
+      </div>
+      {(loadError !== null || error) && (
+        <div className="text-sm text-yellow-800 bg-yellow-100 border border-yellow-300 rounded-md p-3">
+          {loadError !== null ? t('cutout.readError', { details: loadError || t('app.unknownError') })
+            : error instanceof EmptyCutoutError ? t('cutout.empty') : error?.message}
+        </div>
+      )}
+      <div className="flex flex-wrap justify-end gap-3">
+        <button onClick={onCancel} className="text-sm text-blue-600 hover:text-blue-800 font-semibold me-auto">
+          {t('cutout.chooseAnother')}
+        </button>
+        <button
+          onClick={() => onAccept(file)}
+          className="bg-zinc-100 hover:bg-zinc-200 text-zinc-800 font-semibold py-2 px-4 rounded-lg transition-colors"
+        >
+          {t('cutout.useOriginal')}
+        </button>
+        <button
+          onClick={handleAccept}
+          disabled={!isReady || isSaving}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? t('cutout.saving') : t('cutout.useCutout')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DoorCutoutEditor;
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Door } from '../types';
+import { formatDimensions, formatPriceRange } from '../services/doorSpecs';
+import { useI18n } from '../i18n';
+
+interface DoorDetailsProps {
+    door: Door;
+}
+
+const DoorDetails: React.FC<DoorDetailsProps> = ({ door }) => {
+    const { t, intlLocale } = useI18n();
+    const rows: { label: string; value: string }[] = [];
+    if (door.sku) rows.push({ label: t('door.sku'), value: door.sku });
+    if (door.dimensions) rows.push({ label: t('door.size'), value: formatDimensions(door.dimensions, t) });
+    if (door.material) rows.push({ label: t('door.material'), value: door.material });
+    if (door.color) rows.push({ label: t('door.colour'), value: door.color });
+    if (door.usage) rows.push({ label: t('door.use'), value: t(`door.usage.${door.usage}`) });
+    if (door.finishes?.length) rows.push({ label: t('door.finishes'), value: door.finishes.join(t('app.listSeparator')) });
+    if (door.openingType) rows.push({ label: t('door.opening'), value: t(`door.openingType.${door.openingType}`) });
+    if (door.price) rows.push({ label: t('door.price'), value: formatPriceRange(door.price, intlLocale) });
+
+    if (rows.length === 0 && !door.categories?.length) {
+        return null;
+    }
+
+    return (
+        <div className="mt-4 bg-zinc-50 border border-zinc-200 rounded-lg p-4 text-sm">
+            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1.5">
+                {rows.map(({ label, value }) => (
+                    <React.Fragment key={label}>
+                        <dt className="font-semibold text-zinc-500">{label}</dt>
+                        <dd className="text-zinc-800">{value}</dd>
+                    </React.Fragment>
+                ))}
+            </dl>
+            {door.categories?.length ? (
+                <div className="flex flex-wrap gap-1.5 mt-3">
+                    {door.categories.map(category => (
+                        <span key={category} className="bg-zinc-200 text-zinc-700 text-xs font-medium px-2 py-0.5 rounded-full">
+                            {category}
+                        </span>
+                    ))}
+                </div>
+            ) : null}
+        </div>
+    );
+};
+
+export default DoorDetails;
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { DoorFinishVariant } from '../types';
+import { useI18n } from '../i18n';
+
+interface FinishSwatchesProps {
+  variants: DoorFinishVariant[];
+  /** Null when the door is shown as pictured. */
+  selectedId: string | null;
+  /** Called with null when the selected swatch is clicked again. */
+  onSelect: (finishId: string | null) => void;
+  showLabel?: boolean;
+}
+
+/** Round colour swatches for a door's finishes. */
+const FinishSwatches: React.FC<FinishSwatchesProps> = ({ variants, selectedId, onSelect, showLabel = false }) => {
+  const { t } = useI18n();
+  const selected = variants.find(variant => variant.id === selectedId);
+
+  return (
+    <div className="flex flex-col items-center gap-1.5">
+      <div className="flex flex-wrap justify-center gap-1.5" role="radiogroup" aria-label={t('door.finish')}>
+        {variants.map(variant => (
+          <button
+            key={variant.id}
+            onClick={(e) => {
+              // Cards in the selector are clickable too; picking a finish should not also trigger them.
+              e.stopPropagation();
+              onSelect(variant.id === selectedId ? null : variant.id);
+            }}
+            role="radio"
+            aria-checked={variant.id === selectedId}
+            aria-label={variant.name}
+            title={variant.name}
+            className={`w-5 h-5 rounded-full border transition-transform hover:scale-110 ${
+              variant.id === selectedId ? 'border-blue-600 ring-2 ring-blue-300' : 'border-zinc-300'
+            }`}
+            style={{ backgroundColor: variant.swatch }}
+          />
+        ))}
+      </div>
+      {showLabel && (
+        <p className="text-xs text-zinc-500">{selected ? selected.name : t('door.asPictured')}</p>
+      )}
+    </div>
+  );
+};
+
+export default FinishSwatches;
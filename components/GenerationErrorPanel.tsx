@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { GenerationError, GenerationErrorKind } from '../services/generationErrors';
+import { GenerationProgress } from '../services/generationProgress';
+import GenerationStepper from './GenerationStepper';
+import { useI18n } from '../i18n';
+
+export type RecoveryAction = 'retry' | 'change-spot' | 'change-door' | 'change-scene' | 'start-over';
+
+interface GenerationErrorPanelProps {
+  error: GenerationError;
+  /** Stage states at the time of the failure, if known. */
+  progress: GenerationProgress | null;
+  elapsedMs: number;
+  onAction: (action: RecoveryAction) => void;
+}
+
+// The recoveries offered for each kind of failure; the first is the primary one.
+// Titles and explanations are in the message catalogs under `generationError.<kind>`.
+const recoveryActions: Record<GenerationErrorKind, RecoveryAction[]> = {
+  'safety-blocked': ['change-door', 'change-scene', 'start-over'],
+  'quota-exceeded': ['retry', 'change-spot'],
+  'no-image': ['retry', 'change-spot'],
+  network: ['retry', 'change-spot'],
+  'invalid-input': ['change-door', 'change-scene', 'start-over'],
+  unknown: ['retry', 'start-over'],
+};
+
+/** Explains a failed generation and offers the recoveries that fit its cause. */
+const GenerationErrorPanel: React.FC<GenerationErrorPanelProps> = ({ error, progress, elapsedMs, onAction }) => {
+  const { t } = useI18n();
+  const [primaryAction, ...secondaryActions] = recoveryActions[error.kind];
+
+  return (
+    <div className="text-center animate-fade-in bg-red-50 border border-red-200 p-8 rounded-lg max-w-2xl mx-auto">
+      <h2 className="text-3xl font-extrabold mb-4 text-red-800">{t(`generationError.${error.kind}.title`)}</h2>
+      <p className="text-lg text-red-700 mb-2">{t(`generationError.${error.kind}.explanation`)}</p>
+      <p className="text-sm text-red-600 mb-6">{t('generationError.details', { details: error.message })}</p>
+      {progress && (
+        <div className="mb-6">
+          <GenerationStepper progress={progress} elapsedMs={elapsedMs} />
+        </div>
+      )}
+      <button
+          onClick={() => onAction(primaryAction)}
+          className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors"
+        >
+          {t(`recovery.${primaryAction}`)}
+      </button>
+      <div className="mt-4 flex flex-wrap justify-center gap-x-6 gap-y-2">
+        {secondaryActions.map(action => (
+          <button
+            key={action}
+            onClick={() => onAction(action)}
+            className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+          >
+            {t(`recovery.${action}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GenerationErrorPanel;
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { GENERATION_STAGES, GenerationProgress } from '../services/generationProgress';
+import { useI18n } from '../i18n';
+
+interface GenerationStepperProps {
+  progress: GenerationProgress;
+  /** Time since the generation started, in milliseconds, as of the last progress event. */
+  elapsedMs: number;
+  /** While the generation runs, when it started (`performance.now()`); the clock then ticks on its own. */
+  startedAt?: number | null;
+}
+
+// How often the elapsed time refreshes while generating.
+const ELAPSED_TICK_MS = 200;
+
+/** Lists the pipeline stages with their status and timings. */
+const GenerationStepper: React.FC<GenerationStepperProps> = ({ progress, elapsedMs, startedAt = null }) => {
+  const { t, formatNumber } = useI18n();
+  const [now, setNow] = useState(() => performance.now());
+
+  // Ticking here keeps the re-renders to the stepper rather than the whole app.
+  useEffect(() => {
+    if (startedAt === null) return;
+    const interval = setInterval(() => setNow(performance.now()), ELAPSED_TICK_MS);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  const shownElapsedMs = startedAt === null ? elapsedMs : Math.max(elapsedMs, now - startedAt);
+  const formatSeconds = (ms: number) =>
+    t('stepper.seconds', { seconds: formatNumber(ms / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) });
+  const failedStage = GENERATION_STAGES.find(stage => progress[stage].status === 'failed');
+
+  return (
+    <div className="w-full max-w-sm mx-auto text-start">
+      <ol className="flex flex-col gap-2">
+        {GENERATION_STAGES.map((stage, index) => {
+          const { status, durationMs } = progress[stage];
+          return (
+            <li key={stage} className="flex items-center gap-3 text-sm">
+              <span
+                className={`w-6 h-6 flex-shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${
+                  status === 'completed' ? 'bg-green-500 text-white'
+                  : status === 'running' ? 'bg-blue-600 text-white animate-pulse'
+                  : status === 'failed' ? 'bg-red-600 text-white'
+                  : 'bg-zinc-200 text-zinc-500'
+                }`}
+                aria-hidden="true"
+              >
+                {status === 'completed' ? '✓' : status === 'failed' ? '!' : formatNumber(index + 1)}
+              </span>
+              <span className={`flex-grow ${status === 'pending' ? 'text-zinc-400' : status === 'failed' ? 'text-red-700 font-semibold' : 'text-zinc-700'}`}>
+                {t(`stage.${stage}`)}
+              </span>
+              {durationMs !== undefined && (
+                <span className="text-zinc-400 tabular-nums">{formatSeconds(durationMs)}</span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      <p className="mt-3 text-sm text-zinc-500 tabular-nums">
+        {failedStage
+          ? t('stepper.failedAt', { stage: t(`stage.${failedStage}`), time: formatSeconds(shownElapsedMs) })
+          : t('stepper.elapsed', { time: formatSeconds(shownElapsedMs) })}
+      </p>
+    </div>
+  );
+};
+
+export default GenerationStepper;
@@ -3,8 +3,10 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import { useI18n } from '../i18n';
 
 const Header: React.FC = () => {
+  const { t } = useI18n();
   return (
     <header className="w-full p-4 text-center">
       <div className="flex items-center justify-center">
@@ -13,7 +15,7 @@ const Header: React.FC = () => {
           </h1>
       </div>
       <p className="mt-4 text-lg text-zinc-600 max-w-3xl mx-auto">
-        درب مورد نظر خود را در عکس محل مورد نظر قرار دهید
+        {t('header.subtitle')}
       </p>
     </header>
   );
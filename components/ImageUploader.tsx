@@ -4,12 +4,25 @@
 */
 
 import React, { useCallback, useRef, useState, useImperativeHandle, forwardRef, useEffect } from 'react';
+import { BrushStroke, InpaintBase, PlacementQuad, RelativePoint } from '../types';
+import { getContainedImageRect } from '../services/imageUtils';
+import { IngestionError, IngestionNotice, ingestImage } from '../services/imageIngestion';
+import { formatBytes } from '../services/projectStore';
+import IngestionNotices from './IngestionNotices';
+import QuadEditor from './QuadEditor';
+import CalibrationOverlay, { CalibrationLine } from './CalibrationOverlay';
+import SizeGuideOverlay from './SizeGuideOverlay';
+import MaskBrushOverlay from './MaskBrushOverlay';
+import { useI18n } from '../i18n';
 
 interface ImageUploaderProps {
   id: string;
   label?: string;
-  onFileSelect: (file: File) => void;
+  /** Called with the ingested photo and what ingestion changed about it. */
+  onFileSelect: (file: File, notices: IngestionNotice[]) => void;
   imageUrl: string | null;
+  /** What ingestion changed about the photo shown; the owner keeps them, as this uploader may be remounted. */
+  ingestionNotices?: IngestionNotice[];
   isDropZone?: boolean;
   onProductDrop?: (position: {x: number, y: number}, relativePosition: { xPercent: number; yPercent: number; }) => void;
   persistedOrbPosition?: { x: number; y: number } | null;
@@ -17,6 +30,18 @@ interface ImageUploaderProps {
   onDebugClick?: () => void;
   isTouchHovering?: boolean;
   touchOrbPosition?: { x: number; y: number } | null;
+  placementQuad?: PlacementQuad | null;
+  onPlacementQuadChange?: (quad: PlacementQuad) => void;
+  /** When set, the scene is in calibration mode and drags draw the reference line. */
+  onCalibrationLineChange?: (line: CalibrationLine) => void;
+  calibrationLine?: CalibrationLine | null;
+  calibrationLabel?: string;
+  sizeGuide?: { center: RelativePoint; widthPercent: number; heightPercent: number; label: string } | null;
+  /** Editable region preview for masked mode. */
+  inpaintPreview?: { base: InpaintBase | null; strokes: BrushStroke[] } | null;
+  /** When set, drags paint onto the masked-mode region with a brush of this radius. */
+  onInpaintStrokesChange?: (strokes: BrushStroke[]) => void;
+  brushRadiusPercent?: number;
 }
 
 const UploadIcon: React.FC = () => (
@@ -26,39 +51,84 @@ const UploadIcon: React.FC = () => (
 );
 
 const WarningIcon: React.FC = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 me-2 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
         <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.21 3.03-1.742 3.03H4.42c-1.532 0-2.492-1.696-1.742-3.03l5.58-9.92zM10 13a1 1 0 110-2 1 1 0 010 2zm-1-4a1 1 0 011-1h.01a1 1 0 110 2H10a1 1 0 01-1-1z" clipRule="evenodd" />
     </svg>
 );
 
 
-const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, label, onFileSelect, imageUrl, isDropZone = false, onProductDrop, persistedOrbPosition, showDebugButton, onDebugClick, isTouchHovering = false, touchOrbPosition = null }, ref) => {
+const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, label, onFileSelect, imageUrl, ingestionNotices = [], isDropZone = false, onProductDrop, persistedOrbPosition, showDebugButton, onDebugClick, isTouchHovering = false, touchOrbPosition = null, placementQuad = null, onPlacementQuadChange, onCalibrationLineChange, calibrationLine = null, calibrationLabel, sizeGuide = null, inpaintPreview = null, onInpaintStrokesChange, brushRadiusPercent = 5 }, ref) => {
+  const { t, intlLocale } = useI18n();
   const inputRef = useRef<HTMLInputElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [imageRect, setImageRect] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [orbPosition, setOrbPosition] = useState<{x: number, y: number} | null>(null);
-  const [fileTypeError, setFileTypeError] = useState<string | null>(null);
+  // Kept as data rather than text so the messages follow a language switch.
+  const [uploadError, setUploadError] = useState<Error | null>(null);
+  const [isIngesting, setIsIngesting] = useState(false);
 
   // Expose the internal imgRef to the parent component via the forwarded ref
   useImperativeHandle(ref, () => imgRef.current as HTMLImageElement);
   
   useEffect(() => {
     if (!imageUrl) {
-      setFileTypeError(null);
+      setUploadError(null);
     }
   }, [imageUrl]);
 
+  // Track where the photo is drawn so overlays can be positioned on it.
+  const updateImageRect = useCallback(() => {
+    const img = imgRef.current;
+    const container = containerRef.current;
+    if (!img || !container || !img.naturalWidth) {
+      setImageRect(null);
+      return;
+    }
+    setImageRect(getContainedImageRect(img.naturalWidth, img.naturalHeight, container.clientWidth, container.clientHeight));
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(updateImageRect);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [updateImageRect]);
+
+  // Normalizes a picked or dropped photo; only files that pass ingestion reach the app.
+  const handleIncomingFile = useCallback(async (file: File) => {
+    setIsIngesting(true);
+    setUploadError(null);
+    try {
+      const { file: ingestedFile, notices } = await ingestImage(file);
+      onFileSelect(ingestedFile, notices);
+    } catch (err) {
+      setUploadError(err instanceof Error ? err : new Error(t('app.unknownError')));
+      console.error(err);
+    } finally {
+      setIsIngesting(false);
+    }
+  }, [onFileSelect, t]);
+
+  const describeUploadError = (err: Error): string => {
+    if (!(err instanceof IngestionError)) return err.message;
+    const { sizeBytes, limitBytes, ...details } = err.details;
+    return t(`ingestion.error.${err.kind}`, {
+      ...details,
+      size: formatBytes(sizeBytes ?? 0, intlLocale),
+      limit: formatBytes(limitBytes ?? 0, intlLocale),
+    });
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      const allowedTypes = ['image/jpeg', 'image/png'];
-      if (!allowedTypes.includes(file.type)) {
-        setFileTypeError('For best results, please use PNG, JPG, or JPEG formats.');
-      } else {
-        setFileTypeError(null);
-      }
-      onFileSelect(file);
+      handleIncomingFile(file);
     }
+    // Allow picking the same file again after an error.
+    event.target.value = '';
   };
   
   // A shared handler for both click and drop placements.
@@ -67,24 +137,11 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
     if (!img || !onProductDrop) return;
 
     const containerRect = currentTarget.getBoundingClientRect();
-    const { naturalWidth, naturalHeight } = img;
-    const { width: containerWidth, height: containerHeight } = containerRect;
 
     // Calculate the rendered image's dimensions inside the container (due to object-contain)
-    const imageAspectRatio = naturalWidth / naturalHeight;
-    const containerAspectRatio = containerWidth / containerHeight;
-
-    let renderedWidth, renderedHeight;
-    if (imageAspectRatio > containerAspectRatio) {
-      renderedWidth = containerWidth;
-      renderedHeight = containerWidth / imageAspectRatio;
-    } else {
-      renderedHeight = containerHeight;
-      renderedWidth = containerHeight * imageAspectRatio;
-    }
-    
-    const offsetX = (containerWidth - renderedWidth) / 2;
-    const offsetY = (containerHeight - renderedHeight) / 2;
+    const { x: offsetX, y: offsetY, width: renderedWidth, height: renderedHeight } = getContainedImageRect(
+      img.naturalWidth, img.naturalHeight, containerRect.width, containerRect.height
+    );
 
     const pointX = clientX - containerRect.left;
     const pointY = clientY - containerRect.top;
@@ -142,18 +199,13 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
           handlePlacement(event.clientX, event.clientY, event.currentTarget);
       } else {
           // Case 2: A file is being dropped to be uploaded
+          // HEIC files often arrive without a MIME type, so the format is checked during ingestion.
           const file = event.dataTransfer.files?.[0];
-          if (file && file.type.startsWith('image/')) {
-              const allowedTypes = ['image/jpeg', 'image/png'];
-              if (!allowedTypes.includes(file.type)) {
-                  setFileTypeError('For best results, please use PNG, JPG, or JPEG formats.');
-              } else {
-                  setFileTypeError(null);
-              }
-              onFileSelect(file);
+          if (file) {
+              handleIncomingFile(file);
           }
       }
-  }, [isDropZone, onProductDrop, onFileSelect, handlePlacement]);
+  }, [isDropZone, onProductDrop, handleIncomingFile, handlePlacement]);
   
   const showHoverState = isDraggingOver || isTouchHovering;
   const currentOrbPosition = orbPosition || touchOrbPosition;
@@ -169,6 +221,7 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
     <div className="flex flex-col items-center w-full">
       {label && <h3 className="text-xl font-semibold mb-4 text-zinc-700">{label}</h3>}
       <div
+        ref={containerRef}
         className={uploaderClasses}
         onClick={isActionable ? handleClick : undefined}
         onDragOver={handleDragOver}
@@ -181,7 +234,7 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
           id={id}
           ref={inputRef}
           onChange={handleFileChange}
-          accept="image/png, image/jpeg"
+          accept="image/png, image/jpeg, image/webp, image/avif, image/heic, image/heif, .heic, .heif"
           className="hidden"
         />
         {imageUrl ? (
@@ -189,9 +242,26 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
             <img 
               ref={imgRef}
               src={imageUrl} 
-              alt={label || 'Uploaded Scene'} 
+              alt={label || t('uploader.sceneAlt')} 
               className="w-full h-full object-contain" 
+              onLoad={updateImageRect}
             />
+            {sizeGuide && imageRect && (
+                <SizeGuideOverlay {...sizeGuide} imageRect={imageRect} />
+            )}
+            {inpaintPreview && imageRect && (
+                <MaskBrushOverlay
+                    {...inpaintPreview}
+                    imageRect={imageRect}
+                    brushRadiusPercent={brushRadiusPercent}
+                    onStrokesChange={onCalibrationLineChange ? undefined : onInpaintStrokesChange}
+                />
+            )}
+            {onCalibrationLineChange && imageRect ? (
+                <CalibrationOverlay line={calibrationLine} imageRect={imageRect} onChange={onCalibrationLineChange} label={calibrationLabel} />
+            ) : onInpaintStrokesChange ? null : placementQuad && onPlacementQuadChange && imageRect && (
+                <QuadEditor quad={placementQuad} imageRect={imageRect} onChange={onPlacementQuadChange} />
+            )}
             <div 
                 className="drop-orb" 
                 style={{ 
@@ -217,26 +287,27 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
                         e.stopPropagation();
                         onDebugClick();
                     }}
-                    className="absolute bottom-2 right-2 bg-black bg-opacity-60 text-white text-xs font-semibold px-3 py-1.5 rounded-md hover:bg-opacity-80 transition-all z-20 shadow-lg"
-                    aria-label="Show debug view"
+                    className="absolute bottom-2 end-2 bg-black bg-opacity-60 text-white text-xs font-semibold px-3 py-1.5 rounded-md hover:bg-opacity-80 transition-all z-20 shadow-lg"
+                    aria-label={t('uploader.debugLabel')}
                 >
-                    Debug
+                    {t('uploader.debug')}
                 </button>
             )}
           </>
         ) : (
           <div className="text-center text-zinc-500 p-4">
             <UploadIcon />
-            <p>Click to upload or drag & drop</p>
+            <p>{isIngesting ? t('uploader.preparing') : t('uploader.prompt')}</p>
           </div>
         )}
       </div>
-      {fileTypeError && (
+      {uploadError && (
         <div className="w-full mt-2 text-sm text-yellow-800 bg-yellow-100 border border-yellow-300 rounded-lg p-3 flex items-center animate-fade-in" role="alert">
             <WarningIcon />
-            <span>{fileTypeError}</span>
+            <span>{describeUploadError(uploadError)}</span>
         </div>
       )}
+      {imageUrl && <IngestionNotices notices={ingestionNotices} className="mt-2" />}
     </div>
   );
 });
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { IngestionNotice } from '../services/imageIngestion';
+import { useI18n } from '../i18n';
+
+interface IngestionNoticesProps {
+  notices: IngestionNotice[];
+  className?: string;
+}
+
+/** One line saying what ingestion changed about an uploaded photo. */
+const IngestionNotices: React.FC<IngestionNoticesProps> = ({ notices, className = '' }) => {
+  const { t } = useI18n();
+  if (notices.length === 0) {
+    return null;
+  }
+  return (
+    <p className={`w-full text-xs text-zinc-500 text-center animate-fade-in ${className}`}>
+      {notices.map(({ kind, ...params }) => t(`ingestion.notice.${kind}`, params)).join(' ')}
+    </p>
+  );
+};
+
+export default IngestionNotices;
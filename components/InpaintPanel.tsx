@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { useI18n } from '../i18n';
+
+/** Brush radii offered for expanding the editable region, as a percentage of the photo's shorter side. */
+export const BRUSH_SIZE_OPTIONS = [
+  { size: 'small', radiusPercent: 2.5 },
+  { size: 'medium', radiusPercent: 5 },
+  { size: 'large', radiusPercent: 10 },
+] as const;
+
+interface InpaintPanelProps {
+  isBrushing: boolean;
+  onToggleBrushing: () => void;
+  brushRadiusPercent: number;
+  onBrushRadiusChange: (radiusPercent: number) => void;
+  strokeCount: number;
+  onClearStrokes: () => void;
+  /** Whether an outline or an earlier placement gives the region its starting shape. */
+  hasBase: boolean;
+}
+
+const InpaintPanel: React.FC<InpaintPanelProps> = ({
+  isBrushing,
+  onToggleBrushing,
+  brushRadiusPercent,
+  onBrushRadiusChange,
+  strokeCount,
+  onClearStrokes,
+  hasBase,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-start animate-fade-in">
+      <p className="text-blue-900 mb-3">
+        {t(hasBase ? 'inpaint.instructions' : 'inpaint.instructionsNoBase')}
+      </p>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={onToggleBrushing}
+          className={`font-semibold py-1 px-4 rounded-md transition-colors ${isBrushing ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-white border border-blue-300 text-blue-700 hover:bg-blue-100'}`}
+        >
+          {t(isBrushing ? 'inpaint.donePainting' : 'inpaint.paint')}
+        </button>
+        <label className="flex items-center gap-2 font-semibold text-zinc-700">
+          {t('inpaint.brush')}
+          <select
+            value={brushRadiusPercent}
+            onChange={(e) => onBrushRadiusChange(Number(e.target.value))}
+            className="bg-white border border-zinc-300 rounded-md py-0.5 px-1 font-normal text-zinc-800"
+            aria-label={t('inpaint.brushSize')}
+          >
+            {BRUSH_SIZE_OPTIONS.map(({ size, radiusPercent }) => (
+              <option key={radiusPercent} value={radiusPercent}>{t(`inpaint.brushSize.${size}`)}</option>
+            ))}
+          </select>
+        </label>
+        {strokeCount > 0 && (
+          <button onClick={onClearStrokes} className="text-blue-700 hover:text-blue-900 font-semibold">
+            {t('inpaint.clear')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InpaintPanel;
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { LOCALES, useI18n } from '../i18n';
+
+/** Switches the interface between the supported languages. */
+const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div className="inline-flex rounded-md border border-zinc-300 overflow-hidden" role="radiogroup" aria-label={t('app.language')}>
+      {LOCALES.map(option => (
+        <button
+          key={option.locale}
+          onClick={() => setLocale(option.locale)}
+          role="radio"
+          aria-checked={option.locale === locale}
+          lang={option.locale}
+          className={`py-0.5 px-2 font-semibold transition-colors ${option.locale === locale ? 'bg-zinc-800 text-white' : 'bg-white text-zinc-700 hover:bg-zinc-100'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { BrushStroke, InpaintBase, RelativePoint } from '../types';
+import { OverlayImageRect, useOverlayCoordinates } from '../hooks/useOverlayCoordinates';
+
+interface MaskBrushOverlayProps {
+  /** The region's starting shape, if a placement is known yet. */
+  base: InpaintBase | null;
+  strokes: BrushStroke[];
+  imageRect: OverlayImageRect;
+  brushRadiusPercent: number;
+  /** When set, drags paint new strokes; otherwise the overlay is display-only. */
+  onStrokesChange?: (strokes: BrushStroke[]) => void;
+}
+
+/**
+ * Shows the editable region of masked mode as a tinted area and lets the user
+ * paint additions to it with a round brush.
+ */
+const MaskBrushOverlay: React.FC<MaskBrushOverlayProps> = ({ base, strokes, imageRect, brushRadiusPercent, onStrokesChange }) => {
+  const { overlayRef, toPixels, toPercent } = useOverlayCoordinates(imageRect);
+  const [activeStroke, setActiveStroke] = useState<BrushStroke | null>(null);
+
+  const shorterSide = Math.min(imageRect.width, imageRect.height);
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!onStrokesChange) return;
+    e.stopPropagation();
+    e.preventDefault();
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    setActiveStroke({ points: [toPercent(e.clientX, e.clientY)], radiusPercent: brushRadiusPercent });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!activeStroke) return;
+    setActiveStroke({ ...activeStroke, points: [...activeStroke.points, toPercent(e.clientX, e.clientY)] });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!activeStroke || !onStrokesChange) return;
+    e.stopPropagation();
+    onStrokesChange([...strokes, activeStroke]);
+    setActiveStroke(null);
+  };
+
+  const renderStroke = (stroke: BrushStroke, key: React.Key) => {
+    const radius = (stroke.radiusPercent / 100) * shorterSide;
+    const points = stroke.points.map(toPixels);
+    if (points.length === 1) {
+      return <circle key={key} cx={points[0].x} cy={points[0].y} r={radius} />;
+    }
+    return (
+      <polyline
+        key={key}
+        points={points.map(({ x, y }) => `${x},${y}`).join(' ')}
+        fill="none"
+        strokeWidth={radius * 2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    );
+  };
+
+  const renderBase = () => {
+    if (!base) return null;
+    if (base.kind === 'quad') {
+      return <polygon points={base.quad.map(toPixels).map(({ x, y }) => `${x},${y}`).join(' ')} />;
+    }
+    const center = toPixels(base.center);
+    return <circle cx={center.x} cy={center.y} r={(base.radiusPercent / 100) * shorterSide} />;
+  };
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute inset-0 z-10 ${onStrokesChange ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      onClick={(e) => onStrokesChange && e.stopPropagation()}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      style={{ touchAction: onStrokesChange ? 'none' : undefined }}
+    >
+      <svg className="absolute inset-0 w-full h-full pointer-events-none">
+        {/* Group opacity keeps overlapping shapes the same tint. */}
+        <g opacity={0.35} fill="rgb(59, 130, 246)" stroke="rgb(59, 130, 246)">
+          {renderBase()}
+          {strokes.map((stroke, index) => renderStroke(stroke, index))}
+          {activeStroke && renderStroke(activeStroke, 'active')}
+        </g>
+      </svg>
+    </div>
+  );
+};
+
+export default MaskBrushOverlay;
@@ -5,14 +5,23 @@
 
 import React from 'react';
 import { Door } from '../types';
+import { formatDimensions, formatPriceRange } from '../services/doorSpecs';
+import FinishSwatches from './FinishSwatches';
+import { useI18n } from '../i18n';
 
 interface ObjectCardProps {
     door: Door;
     isSelected: boolean;
     onClick?: () => void;
+    /** Shown instead of the door's own image, e.g. the door in the chosen finish. */
+    imageUrl?: string | null;
+    selectedFinishId?: string | null;
+    /** Shows the door's finish swatches when given. */
+    onFinishSelect?: (finishId: string | null) => void;
 }
 
-const ObjectCard: React.FC<ObjectCardProps> = ({ door, isSelected, onClick }) => {
+const ObjectCard: React.FC<ObjectCardProps> = ({ door, isSelected, onClick, imageUrl, selectedFinishId = null, onFinishSelect }) => {
+    const { t, intlLocale } = useI18n();
     const cardClasses = `
         bg-white rounded-lg shadow-md overflow-hidden transition-all duration-300 h-full flex flex-col
         ${onClick ? 'cursor-pointer hover:shadow-xl hover:scale-105' : ''}
@@ -22,10 +31,28 @@ const ObjectCard: React.FC<ObjectCardProps> = ({ door, isSelected, onClick }) =>
     return (
         <div className={cardClasses} onClick={onClick}>
             <div className="aspect-square w-full bg-zinc-100 flex items-center justify-center flex-grow">
-                <img src={door.imageUrl} alt={door.name} className="w-full h-full object-contain" />
+                <img src={imageUrl ?? door.imageUrl} alt={door.name} className="w-full h-full object-contain" />
             </div>
             <div className="p-3 text-center flex-shrink-0">
                 <h4 className="text-sm font-semibold text-zinc-700 truncate">{door.name}</h4>
+                {(door.material || door.dimensions) && (
+                    <p className="text-xs text-zinc-500 truncate mt-0.5">
+                        {[door.material, door.dimensions && formatDimensions(door.dimensions, t)].filter(Boolean).join(' · ')}
+                    </p>
+                )}
+                {door.price && (
+                    <p className="text-xs font-semibold text-zinc-700 truncate mt-1">{formatPriceRange(door.price, intlLocale)}</p>
+                )}
+                {door.variants?.length && onFinishSelect ? (
+                    <div className="mt-2">
+                        <FinishSwatches
+                            variants={door.variants}
+                            selectedId={selectedFinishId}
+                            onSelect={onFinishSelect}
+                            showLabel={isSelected}
+                        />
+                    </div>
+                ) : null}
             </div>
         </div>
     );
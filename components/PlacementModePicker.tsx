@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { PlacementMode } from '../types';
+import { useI18n } from '../i18n';
+
+/** The modes in the order they are offered; labels and hints are under `placementMode.<mode>`. */
+export const PLACEMENT_MODES: PlacementMode[] = ['replace-existing', 'cut-into-wall', 'fill-opening'];
+
+interface PlacementModePickerProps {
+  mode: PlacementMode;
+  onChange: (mode: PlacementMode) => void;
+}
+
+/** Chooses what the door does at the spot, before it is dropped. */
+const PlacementModePicker: React.FC<PlacementModePickerProps> = ({ mode, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full mt-4 text-sm animate-fade-in">
+      <div className="inline-flex flex-wrap justify-center rounded-lg border border-zinc-300 overflow-hidden" role="radiogroup" aria-label={t('placementMode.label')}>
+        {PLACEMENT_MODES.map(option => (
+          <button
+            key={option}
+            onClick={() => onChange(option)}
+            role="radio"
+            aria-checked={option === mode}
+            className={`py-1 px-3 font-semibold transition-colors ${option === mode ? 'bg-zinc-800 text-white' : 'bg-white text-zinc-700 hover:bg-zinc-100'}`}
+          >
+            {t(`placementMode.${option}`)}
+          </button>
+        ))}
+      </div>
+      <p className="mt-2 text-zinc-500">{t(`placementMode.${mode}.hint`)}</p>
+    </div>
+  );
+};
+
+export default PlacementModePicker;
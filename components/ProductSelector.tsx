@@ -3,40 +3,140 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useRef, useState, useCallback, useEffect } from 'react';
+import React, { useRef, useState, useCallback, useEffect, useMemo } from 'react';
 import { Door } from '../types';
 import ObjectCard from './ObjectCard';
+import {
+    DoorFilterState,
+    DoorSortOrder,
+    DoorViewMode,
+    DEFAULT_DOOR_FILTERS,
+    PRICE_BANDS,
+    applyFiltersToSearchParams,
+    filterAndSortDoors,
+    filtersFromSearchParams,
+    getFacetOptions,
+    hasActiveFilters,
+} from '../services/doorFilters';
+import { CatalogWarning } from '../services/catalogService';
+import { Translate, useI18n } from '../i18n';
 
 interface DoorSelectorProps {
     doors: Door[];
-    onSelect: (door: Door) => void;
+    warnings?: CatalogWarning[];
+    /** Shown above the warnings when the catalog could not be loaded at all. */
+    loadError?: string | null;
+    /** Called with a finish id when the door was picked by one of its swatches. */
+    onSelect: (door: Door, finishId?: string | null) => void;
     onAddOwnProductClick: () => void;
 }
 
+// The arrows point towards the start and end of the row, so they flip in right-to-left layouts.
 const ArrowLeftIcon = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 rtl:rotate-180" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
     </svg>
 );
 
 const ArrowRightIcon = () => (
-    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 rtl:rotate-180" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
     </svg>
 );
 
-const DoorSelector: React.FC<DoorSelectorProps> = ({ doors, onSelect, onAddOwnProductClick }) => {
+const WarningIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 me-2 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
+        <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.21 3.03-1.742 3.03H4.42c-1.532 0-2.492-1.696-1.742-3.03l5.58-9.92zM10 13a1 1 0 110-2 1 1 0 010 2zm-1-4a1 1 0 011-1h.01a1 1 0 110 2H10a1 1 0 01-1-1z" clipRule="evenodd" />
+    </svg>
+);
+
+const SearchIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+    </svg>
+);
+
+interface FacetSelectProps {
+    label: string;
+    value: string;
+    options: { value: string; label: string }[];
+    onChange: (value: string) => void;
+}
+
+const FacetSelect: React.FC<FacetSelectProps> = ({ label, value, options, onChange }) => (
+    <label className="flex flex-col text-start text-xs font-semibold text-zinc-500">
+        {label}
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="mt-1 bg-white border border-zinc-300 rounded-md py-1.5 px-2 text-sm font-normal text-zinc-800 focus:outline-none focus:border-blue-500"
+        >
+            {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+    </label>
+);
+
+const withAllOption = (values: string[], allLabel: string) => [
+    { value: '', label: allLabel },
+    ...values.map(value => ({ value, label: value })),
+];
+
+const SORT_ORDERS: DoorSortOrder[] = ['featured', 'name', 'price-asc', 'price-desc'];
+const VIEW_MODES: DoorViewMode[] = ['carousel', 'grid'];
+
+const getWarningText = (warning: CatalogWarning, t: Translate): string => {
+    switch (warning.kind) {
+        case 'invalid-entry':
+        case 'duplicate-id': {
+            const entry = warning.name
+                ? t('catalogWarning.entryNamed', { number: warning.entry, name: warning.name })
+                : t('catalogWarning.entry', { number: warning.entry });
+            return warning.kind === 'invalid-entry'
+                ? t('catalogWarning.invalid-entry', { entry, problems: warning.problems.join('; ') })
+                : t('catalogWarning.duplicate-id', { entry, id: warning.id });
+        }
+        case 'image-missing':
+            return t('catalogWarning.image-missing', { door: warning.door });
+        case 'finish-image-missing':
+            return t('catalogWarning.finish-image-missing', { door: warning.door, finish: warning.finish });
+    }
+};
+
+const DoorSelector: React.FC<DoorSelectorProps> = ({ doors, warnings = [], loadError = null, onSelect, onAddOwnProductClick }) => {
+    const { t, dir } = useI18n();
     const scrollContainerRef = useRef<HTMLDivElement>(null);
-    const [canScrollLeft, setCanScrollLeft] = useState(false);
-    const [canScrollRight, setCanScrollRight] = useState(true);
+    const [canScrollBack, setCanScrollBack] = useState(false);
+    const [canScrollForward, setCanScrollForward] = useState(true);
+    // Filters are initialised from, and mirrored to, the URL so they survive reloads.
+    const [filters, setFilters] = useState<DoorFilterState>(() => filtersFromSearchParams(new URLSearchParams(window.location.search)));
+
+    const facetOptions = useMemo(() => getFacetOptions(doors), [doors]);
+    const visibleDoors = useMemo(() => filterAndSortDoors(doors, filters), [doors, filters]);
+
+    useEffect(() => {
+        const params = applyFiltersToSearchParams(filters, new URLSearchParams(window.location.search));
+        const search = params.toString();
+        const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+        window.history.replaceState(window.history.state, '', url);
+    }, [filters]);
+
+    const updateFilter = <K extends keyof DoorFilterState>(field: K, value: DoorFilterState[K]) => {
+        setFilters(prev => ({ ...prev, [field]: value }));
+    };
+
+    const clearFilters = () => {
+        setFilters(prev => ({ ...DEFAULT_DOOR_FILTERS, sort: prev.sort, view: prev.view }));
+    };
 
     const checkScrollButtons = useCallback(() => {
         const el = scrollContainerRef.current;
         if (el) {
-            const atStart = el.scrollLeft < 10;
-            const atEnd = el.scrollLeft + el.clientWidth >= el.scrollWidth - 10;
-            setCanScrollLeft(!atStart);
-            setCanScrollRight(!atEnd);
+            // scrollLeft runs from 0 towards negative values in right-to-left layouts.
+            const offset = Math.abs(el.scrollLeft);
+            const atStart = offset < 10;
+            const atEnd = offset + el.clientWidth >= el.scrollWidth - 10;
+            setCanScrollBack(!atStart);
+            setCanScrollForward(!atEnd);
         }
     }, []);
     
@@ -49,7 +149,7 @@ const DoorSelector: React.FC<DoorSelectorProps> = ({ doors, onSelect, onAddOwnPr
         
         // Handle case where items don't fill the container
         if (el.scrollWidth <= el.clientWidth) {
-            setCanScrollRight(false);
+            setCanScrollForward(false);
         }
 
         el.addEventListener('scroll', checkScrollButtons);
@@ -58,13 +158,14 @@ const DoorSelector: React.FC<DoorSelectorProps> = ({ doors, onSelect, onAddOwnPr
             el.removeEventListener('scroll', checkScrollButtons);
             window.removeEventListener('resize', checkScrollButtons);
         };
-    }, [doors, checkScrollButtons]);
+    }, [visibleDoors, filters.view, dir, checkScrollButtons]);
 
-    const scroll = (direction: 'left' | 'right') => {
+    const scroll = (direction: 'back' | 'forward') => {
         if (scrollContainerRef.current) {
             const scrollAmount = scrollContainerRef.current.clientWidth * 0.8;
+            const forwardSign = dir === 'rtl' ? -1 : 1;
             scrollContainerRef.current.scrollBy({
-                left: direction === 'left' ? -scrollAmount : scrollAmount,
+                left: (direction === 'back' ? -scrollAmount : scrollAmount) * forwardSign,
                 behavior: 'smooth',
             });
         }
@@ -72,46 +173,149 @@ const DoorSelector: React.FC<DoorSelectorProps> = ({ doors, onSelect, onAddOwnPr
 
     return (
         <div className="w-full max-w-6xl mx-auto text-center animate-fade-in">
-            <h2 className="text-3xl md:text-4xl font-extrabold mb-2 text-zinc-800">Choose a Door</h2>
-            <p className="text-zinc-600 mb-8 max-w-2xl mx-auto">Select one of our models from the list below, or upload your own to get started.</p>
+            <h2 className="text-3xl md:text-4xl font-extrabold mb-2 text-zinc-800">{t('selector.title')}</h2>
+            <p className="text-zinc-600 mb-8 max-w-2xl mx-auto">{t('selector.intro')}</p>
+            {(warnings.length > 0 || loadError) && (
+                <div className="text-start text-sm text-yellow-800 bg-yellow-100 border border-yellow-300 rounded-lg p-3 mb-6 flex items-start animate-fade-in" role="alert">
+                    <WarningIcon />
+                    <ul className="space-y-1">
+                        {loadError && <li>{loadError}</li>}
+                        {warnings.map((warning, index) => <li key={index}>{getWarningText(warning, t)}</li>)}
+                    </ul>
+                </div>
+            )}
+            <div className="bg-zinc-50 border border-zinc-200 rounded-lg p-4 mb-4 text-start">
+                <div className="flex flex-col md:flex-row gap-3">
+                    <div className="relative flex-grow">
+                        <span className="absolute inset-y-0 start-3 flex items-center text-zinc-400 pointer-events-none">
+                            <SearchIcon />
+                        </span>
+                        <input
+                            type="search"
+                            value={filters.query}
+                            onChange={(e) => updateFilter('query', e.target.value)}
+                            placeholder={t('selector.searchPlaceholder')}
+                            className="w-full bg-white border border-zinc-300 rounded-md py-2 ps-10 pe-3 text-sm focus:outline-none focus:border-blue-500"
+                            aria-label={t('selector.searchLabel')}
+                        />
+                    </div>
+                    <div className="flex items-end gap-2">
+                        <FacetSelect
+                            label={t('selector.sortBy')}
+                            value={filters.sort}
+                            options={SORT_ORDERS.map(order => ({ value: order, label: t(`selector.sort.${order}`) }))}
+                            onChange={(value) => updateFilter('sort', value as DoorSortOrder)}
+                        />
+                        <div className="flex rounded-md border border-zinc-300 overflow-hidden" role="group" aria-label={t('selector.viewMode')}>
+                            {VIEW_MODES.map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => updateFilter('view', mode)}
+                                    className={`px-3 py-1.5 text-sm font-semibold transition-colors ${filters.view === mode ? 'bg-zinc-800 text-white' : 'bg-white text-zinc-600 hover:bg-zinc-100'}`}
+                                    aria-pressed={filters.view === mode}
+                                >
+                                    {t(`selector.view.${mode}`)}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-3">
+                    <FacetSelect
+                        label={t('selector.category')}
+                        value={filters.category}
+                        options={withAllOption(facetOptions.categories, t('selector.allCategories'))}
+                        onChange={(value) => updateFilter('category', value)}
+                    />
+                    <FacetSelect
+                        label={t('selector.material')}
+                        value={filters.material}
+                        options={withAllOption(facetOptions.materials, t('selector.allMaterials'))}
+                        onChange={(value) => updateFilter('material', value)}
+                    />
+                    <FacetSelect
+                        label={t('selector.colour')}
+                        value={filters.color}
+                        options={withAllOption(facetOptions.colors, t('selector.allColours'))}
+                        onChange={(value) => updateFilter('color', value)}
+                    />
+                    <FacetSelect
+                        label={t('selector.price')}
+                        value={filters.priceBand}
+                        options={[{ value: '', label: t('selector.anyPrice') }, ...PRICE_BANDS.map(band => ({ value: band.id, label: t(`priceBand.${band.id}`) }))]}
+                        onChange={(value) => updateFilter('priceBand', value)}
+                    />
+                    <FacetSelect
+                        label={t('selector.usage')}
+                        value={filters.usage}
+                        options={[{ value: '', label: t('selector.bothUsages') }, { value: 'interior', label: t('door.usage.interior') }, { value: 'exterior', label: t('door.usage.exterior') }]}
+                        onChange={(value) => updateFilter('usage', value as DoorFilterState['usage'])}
+                    />
+                </div>
+                <div className="flex items-center justify-between mt-3 text-sm text-zinc-500">
+                    <span>{t('selector.count', { visible: visibleDoors.length, total: doors.length })}</span>
+                    {hasActiveFilters(filters) && (
+                        <button onClick={clearFilters} className="text-blue-600 hover:text-blue-800 font-semibold">
+                            {t('selector.clearFilters')}
+                        </button>
+                    )}
+                </div>
+            </div>
+            {visibleDoors.length === 0 ? (
+                <p className="text-zinc-500 py-12">{t('selector.noResults')}</p>
+            ) : filters.view === 'grid' ? (
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-6 py-4">
+                    {visibleDoors.map(door => (
+                        <ObjectCard
+                            key={door.id}
+                            door={door}
+                            isSelected={false}
+                            onClick={() => onSelect(door)}
+                            onFinishSelect={(finishId) => onSelect(door, finishId)}
+                        />
+                    ))}
+                </div>
+            ) : (
             <div className="relative flex items-center">
                 <button 
-                    onClick={() => scroll('left')}
-                    disabled={!canScrollLeft}
-                    className="absolute -left-4 z-10 p-2 bg-white rounded-full shadow-md hover:bg-zinc-100 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                    aria-label="Scroll left"
+                    onClick={() => scroll('back')}
+                    disabled={!canScrollBack}
+                    className="absolute -start-4 z-10 p-2 bg-white rounded-full shadow-md hover:bg-zinc-100 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={t('selector.scrollBack')}
                 >
                     <ArrowLeftIcon />
                 </button>
                 <div
                     ref={scrollContainerRef}
-                    className="flex space-x-6 overflow-x-auto snap-x snap-mandatory py-4 scrollbar-hide"
+                    className="flex gap-6 overflow-x-auto snap-x snap-mandatory py-4 scrollbar-hide"
                 >
-                    {doors.map(door => (
+                    {visibleDoors.map(door => (
                          <div key={door.id} className="snap-center shrink-0 w-52 md:w-64">
                             <ObjectCard
                                 door={door}
                                 isSelected={false}
                                 onClick={() => onSelect(door)}
+                                onFinishSelect={(finishId) => onSelect(door, finishId)}
                             />
                         </div>
                     ))}
                 </div>
                  <button 
-                    onClick={() => scroll('right')}
-                    disabled={!canScrollRight}
-                    className="absolute -right-4 z-10 p-2 bg-white rounded-full shadow-md hover:bg-zinc-100 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                    aria-label="Scroll right"
+                    onClick={() => scroll('forward')}
+                    disabled={!canScrollForward}
+                    className="absolute -end-4 z-10 p-2 bg-white rounded-full shadow-md hover:bg-zinc-100 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={t('selector.scrollForward')}
                 >
                     <ArrowRightIcon />
                 </button>
             </div>
+            )}
             <div className="mt-8">
                 <button
                     onClick={onAddOwnProductClick}
                     className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors shadow-sm"
                 >
-                    Upload Your Own Door
+                    {t('selector.uploadOwn')}
                 </button>
             </div>
         </div>
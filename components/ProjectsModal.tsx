@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ProjectMeta, formatBytes, getStorageEstimate, listProjects, renameProject } from '../services/projectStore';
+import { useI18n } from '../i18n';
+
+interface ProjectsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentProjectId: string | null;
+  onOpenProject: (id: string) => void;
+  onNewProject: () => void;
+  onDeleteProject: (id: string) => Promise<void>;
+  /** Called after the current project is renamed here. */
+  onRenamed: (id: string, name: string) => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const ProjectsModal: React.FC<ProjectsModalProps> = ({ isOpen, onClose, currentProjectId, onOpenProject, onNewProject, onDeleteProject, onRenamed }) => {
+  const { t, intlLocale } = useI18n();
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [projectList, estimate] = await Promise.all([listProjects(), getStorageEstimate()]);
+      setProjects(projectList);
+      setStorage(estimate);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('projects.readError'));
+      console.error(err);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    refresh();
+  }, [isOpen, refresh]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const startRename = (project: ProjectMeta) => {
+    setEditingId(project.id);
+    setEditingName(project.name);
+  };
+
+  const commitRename = async () => {
+    const id = editingId;
+    const name = editingName.trim();
+    setEditingId(null);
+    if (!id || !name) return;
+    setError(null);
+    try {
+      await renameProject(id, name);
+      onRenamed(id, name);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : t('app.unknownError');
+      setError(t('projects.renameError', { details: errorMessage }));
+      console.error(err);
+    } finally {
+      refresh();
+    }
+  };
+
+  const handleDelete = async (project: ProjectMeta) => {
+    if (!window.confirm(t('projects.confirmDelete', { name: project.name }))) return;
+    setError(null);
+    try {
+      await onDeleteProject(project.id);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : t('app.unknownError');
+      setError(t('projects.deleteError', { details: errorMessage }));
+      console.error(err);
+    } finally {
+      refresh();
+    }
+  };
+
+  const totalProjectBytes = projects.reduce((sum, project) => sum + project.sizeBytes, 0);
+  const formatSize = (bytes: number) => formatBytes(bytes, intlLocale);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 end-4 text-zinc-500 hover:text-zinc-800 transition-colors"
+          aria-label={t('app.closeModal')}
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center mb-4">
+          <h2 className="text-2xl font-extrabold text-zinc-800">{t('projects.title')}</h2>
+          <p className="text-sm text-zinc-500 mt-1">
+            {t('projects.autosave')}{' '}
+            {storage && storage.quota > 0
+              ? t('projects.usageWithQuota', { size: formatSize(totalProjectBytes), usage: formatSize(storage.usage), quota: formatSize(storage.quota) })
+              : t('projects.usage', { size: formatSize(totalProjectBytes) })}
+          </p>
+        </div>
+        {error && (
+          <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 mb-4" role="alert">{error}</p>
+        )}
+        <ul className="divide-y divide-zinc-200 overflow-y-auto border border-zinc-200 rounded-lg">
+          {projects.length === 0 && (
+            <li className="p-4 text-sm text-zinc-500 text-center">{t('projects.empty')}</li>
+          )}
+          {projects.map(project => {
+            const isCurrent = project.id === currentProjectId;
+            return (
+              <li key={project.id} className={`p-3 flex items-center gap-3 ${isCurrent ? 'bg-blue-50' : ''}`}>
+                <div className="flex-grow min-w-0">
+                  {editingId === project.id ? (
+                    <input
+                      autoFocus
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full border border-zinc-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:border-blue-500"
+                      aria-label={t('projects.name')}
+                    />
+                  ) : (
+                    <p className="font-semibold text-zinc-800 truncate">
+                      {project.name}
+                      {isCurrent && <span className="ms-2 text-xs font-medium text-blue-600">{t('projects.open')}</span>}
+                    </p>
+                  )}
+                  <p className="text-xs text-zinc-500">
+                    {t('projects.updated', { date: new Date(project.updatedAt).toLocaleString(intlLocale), size: formatSize(project.sizeBytes) })}
+                  </p>
+                </div>
+                {!isCurrent && (
+                  <button onClick={() => onOpenProject(project.id)} className="text-sm text-blue-600 hover:text-blue-800 font-semibold">{t('projects.openButton')}</button>
+                )}
+                <button onClick={() => startRename(project)} className="text-sm text-blue-600 hover:text-blue-800 font-semibold">{t('projects.rename')}</button>
+                <button onClick={() => handleDelete(project)} className="text-sm text-red-600 hover:text-red-800 font-semibold">{t('projects.delete')}</button>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="flex justify-center mt-6">
+          <button
+            onClick={onNewProject}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-lg transition-colors shadow-sm"
+          >
+            {t('projects.new')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectsModal;
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { PlacementQuad, RelativePoint } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+import { OverlayImageRect, useOverlayCoordinates } from '../hooks/useOverlayCoordinates';
+
+interface QuadEditorProps {
+  quad: PlacementQuad;
+  imageRect: OverlayImageRect;
+  onChange: (quad: PlacementQuad) => void;
+}
+
+type DragTarget = { kind: 'corner'; index: number } | { kind: 'body'; start: RelativePoint; startQuad: PlacementQuad };
+
+const cornerLabelKeys: MessageKey[] = ['quad.corner.top-left', 'quad.corner.top-right', 'quad.corner.bottom-right', 'quad.corner.bottom-left'];
+
+/**
+ * Overlay with four draggable corner handles for outlining a door opening on
+ * the scene. Dragging inside the outline moves the whole quad.
+ */
+const QuadEditor: React.FC<QuadEditorProps> = ({ quad, imageRect, onChange }) => {
+  const { t, formatNumber } = useI18n();
+  const { overlayRef, toPixels, toPercent, toUnclampedPercent } = useOverlayCoordinates(imageRect);
+  const [dragTarget, setDragTarget] = useState<DragTarget | null>(null);
+
+  const startDrag = (target: DragTarget) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    setDragTarget(target);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragTarget) return;
+    if (dragTarget.kind === 'corner') {
+      const next = [...quad] as PlacementQuad;
+      next[dragTarget.index] = toPercent(e.clientX, e.clientY);
+      onChange(next);
+    } else {
+      const { start, startQuad } = dragTarget;
+      const point = toUnclampedPercent(e.clientX, e.clientY);
+      // Limit the move so no corner leaves the photo.
+      const xs = startQuad.map(p => p.xPercent);
+      const ys = startQuad.map(p => p.yPercent);
+      const dx = Math.min(100 - Math.max(...xs), Math.max(-Math.min(...xs), point.xPercent - start.xPercent));
+      const dy = Math.min(100 - Math.max(...ys), Math.max(-Math.min(...ys), point.yPercent - start.yPercent));
+      onChange(startQuad.map(p => ({ xPercent: p.xPercent + dx, yPercent: p.yPercent + dy })) as PlacementQuad);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragTarget) return;
+    e.stopPropagation();
+    setDragTarget(null);
+  };
+
+  const corners = quad.map(toPixels);
+  const polygonPoints = corners.map(({ x, y }) => `${x},${y}`).join(' ');
+
+  return (
+    <div
+      ref={overlayRef}
+      className="absolute inset-0 z-10"
+      onClick={(e) => e.stopPropagation()}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      style={{ touchAction: 'none' }}
+    >
+      <svg className="absolute inset-0 w-full h-full">
+        <polygon
+          points={polygonPoints}
+          className="cursor-move"
+          fill="rgba(59, 130, 246, 0.15)"
+          stroke="rgb(59, 130, 246)"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+          onPointerDown={(e) => startDrag({ kind: 'body', start: toUnclampedPercent(e.clientX, e.clientY), startQuad: quad })(e)}
+        />
+      </svg>
+      {corners.map(({ x, y }, index) => (
+        <div
+          key={index}
+          role="slider"
+          aria-label={t(cornerLabelKeys[index])}
+          aria-valuetext={`${formatNumber(quad[index].xPercent / 100, { style: 'percent' })}, ${formatNumber(quad[index].yPercent / 100, { style: 'percent' })}`}
+          className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full bg-white border-2 border-blue-500 shadow-md cursor-grab active:cursor-grabbing"
+          style={{ left: x, top: y }}
+          onPointerDown={startDrag({ kind: 'corner', index })}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default QuadEditor;
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { RelativePoint } from '../types';
+
+interface SizeGuideOverlayProps {
+  /** Centre of the guide on the photo. */
+  center: RelativePoint;
+  widthPercent: number;
+  heightPercent: number;
+  /** Where the photo is drawn inside the container, in container pixels. */
+  imageRect: { x: number; y: number; width: number; height: number };
+  label: string;
+}
+
+/**
+ * Dashed outline showing how large the selected door should appear at the
+ * current placement, so the generated result can be checked against it.
+ */
+const SizeGuideOverlay: React.FC<SizeGuideOverlayProps> = ({ center, widthPercent, heightPercent, imageRect, label }) => {
+  const width = (widthPercent / 100) * imageRect.width;
+  const height = (heightPercent / 100) * imageRect.height;
+  const left = imageRect.x + (center.xPercent / 100) * imageRect.width - width / 2;
+  const top = imageRect.y + (center.yPercent / 100) * imageRect.height - height / 2;
+
+  return (
+    <div
+      className="absolute border-2 border-dashed border-amber-400 rounded-sm pointer-events-none z-10"
+      style={{ left, top, width, height, boxShadow: '0 0 0 1px rgba(0, 0, 0, 0.3)' }}
+    >
+      <span className="absolute left-1/2 -translate-x-1/2 -top-6 whitespace-nowrap bg-amber-500 text-white text-xs font-semibold px-2 py-0.5 rounded shadow">
+        {label}
+      </span>
+    </div>
+  );
+};
+
+export default SizeGuideOverlay;
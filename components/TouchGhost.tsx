@@ -4,6 +4,7 @@
 */
 
 import React from 'react';
+import { useI18n } from '../i18n';
 
 interface TouchGhostProps {
   imageUrl: string | null;
@@ -11,6 +12,7 @@ interface TouchGhostProps {
 }
 
 const TouchGhost: React.FC<TouchGhostProps> = ({ imageUrl, position }) => {
+  const { t } = useI18n();
   if (!imageUrl || !position) {
     return null;
   }
@@ -30,7 +32,7 @@ const TouchGhost: React.FC<TouchGhostProps> = ({ imageUrl, position }) => {
     <div style={style} className="bg-white/80 backdrop-blur-md rounded-2xl shadow-2xl p-2">
       <img
         src={imageUrl}
-        alt="Dragging product"
+        alt={t('main.draggingDoor')}
         className="w-full h-full object-contain"
       />
     </div>
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { SceneVersion } from '../types';
+import { Translate, useI18n } from '../i18n';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+
+interface VersionStripProps {
+  versions: SceneVersion[];
+  currentId: string | null;
+  onSelect: (id: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  disabled?: boolean;
+}
+
+const UndoIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 rtl:-scale-x-100" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 015 5v2M3 10l5-5M3 10l5 5" />
+    </svg>
+);
+
+const RedoIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 rtl:-scale-x-100" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 00-5 5v2m15-7l-5-5m5 5l-5 5" />
+    </svg>
+);
+
+// Owns the object URL for one thumbnail so it is revoked when the version goes away.
+const VersionThumbnail: React.FC<{ file: File; alt: string }> = ({ file, alt }) => {
+  const url = useObjectUrl(file);
+  return url ? <img src={url} alt={alt} className="w-full h-full object-cover" /> : null;
+};
+
+const getVersionLabel = (version: SceneVersion, index: number, t: Translate) =>
+  version.generation ? t('versions.generated', { number: index, door: version.generation.door.name }) : t('versions.original');
+
+const VersionStrip: React.FC<VersionStripProps> = ({ versions, currentId, onSelect, onUndo, onRedo, canUndo, canRedo, disabled = false }) => {
+  const { t } = useI18n();
+
+  if (versions.length === 0) {
+    return null;
+  }
+
+  const iconButtonClasses = 'p-2 rounded-full bg-white border border-zinc-200 shadow-sm text-zinc-700 hover:bg-zinc-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="w-full mt-4 flex items-center gap-3 animate-fade-in">
+      <div className="flex flex-col gap-2 flex-shrink-0">
+        <button onClick={onUndo} disabled={disabled || !canUndo} className={iconButtonClasses} aria-label={t('versions.undo')} title={t('versions.undoTitle')}>
+          <UndoIcon />
+        </button>
+        <button onClick={onRedo} disabled={disabled || !canRedo} className={iconButtonClasses} aria-label={t('versions.redo')} title={t('versions.redoTitle')}>
+          <RedoIcon />
+        </button>
+      </div>
+      <div className="flex gap-3 overflow-x-auto py-1 scrollbar-hide" role="list" aria-label={t('versions.list')}>
+        {versions.map((version, index) => {
+          const isCurrent = version.id === currentId;
+          const label = getVersionLabel(version, index, t);
+          return (
+            <button
+              key={version.id}
+              role="listitem"
+              onClick={() => onSelect(version.id)}
+              disabled={disabled}
+              aria-current={isCurrent}
+              title={t(isCurrent ? 'versions.current' : 'versions.continueFrom', { label })}
+              className={`flex-shrink-0 w-28 text-start rounded-md overflow-hidden border-2 transition-all disabled:cursor-not-allowed ${isCurrent ? 'border-blue-500 shadow-md' : 'border-transparent hover:border-zinc-300'}`}
+            >
+              <div className="w-full aspect-video bg-zinc-100">
+                <VersionThumbnail file={version.file} alt={label} />
+              </div>
+              <p className="text-xs text-zinc-600 px-1 py-0.5 truncate">{label}</p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VersionStrip;
@@ -1,35 +0,0 @@
-/**
- * @license
- * SPDX-License-Identifier: Apache-2.0
-*/
-import { Door } from '../types';
-
-// NOTE: Please replace these with your actual product details and image paths.
-// Ensure the image files are placed in the `public/assets/` directory.
-export const predefinedDoors: Door[] = [
-  {
-    id: 1,
-    name: 'Classic Oak Panel',
-    imageUrl: '/assets/door-1.jpg',
-  },
-  {
-    id: 2,
-    name: 'Modern Steel Gray',
-    imageUrl: '/assets/door-2.jpg',
-  },
-  {
-    id: 3,
-    name: 'Rustic Barn Door',
-    imageUrl: '/assets/door-3.png',
-  },
-  {
-    id: 4,
-    name: 'Elegant Glass Insert',
-    imageUrl: '/assets/door-4.jpg',
-  },
-  {
-    id: 5,
-    name: 'Minimalist White',
-    imageUrl: '/assets/door-5.jpg',
-  },
-];
\ No newline at end of file
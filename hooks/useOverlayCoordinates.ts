@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useRef } from 'react';
+import { RelativePoint } from '../types';
+
+/** Where the photo is drawn inside an overlay, in overlay pixels. */
+export interface OverlayImageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, value));
+
+/**
+ * Converts between points on the photo, in percent of its size, and positions
+ * in an overlay drawn over it. Attach `overlayRef` to the overlay element.
+ * `toPercent` keeps pointer positions on the photo; `toUnclampedPercent` lets
+ * them run past its edges, for drags that measure a distance.
+ */
+export const useOverlayCoordinates = (imageRect: OverlayImageRect) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  const toPixels = (point: RelativePoint) => ({
+    x: imageRect.x + (point.xPercent / 100) * imageRect.width,
+    y: imageRect.y + (point.yPercent / 100) * imageRect.height,
+  });
+
+  const toUnclampedPercent = (clientX: number, clientY: number): RelativePoint => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      xPercent: ((clientX - rect.left - imageRect.x) / imageRect.width) * 100,
+      yPercent: ((clientY - rect.top - imageRect.y) / imageRect.height) * 100,
+    };
+  };
+
+  const toPercent = (clientX: number, clientY: number): RelativePoint => {
+    const { xPercent, yPercent } = toUnclampedPercent(clientX, clientY);
+    return { xPercent: clampPercent(xPercent), yPercent: clampPercent(yPercent) };
+  };
+
+  return { overlayRef, toPixels, toPercent, toUnclampedPercent };
+};
@@ -0,0 +1,351 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// English messages. This catalog defines the message keys; fa.ts must provide every one.
+// Placeholders such as {count} are filled in by `t`, which writes numbers in the locale's digits.
+
+const en = {
+  'app.title': 'Atak Door Visualizer',
+  'app.unknownError': 'An unknown error occurred.',
+  'app.closeModal': 'Close modal',
+  'app.listSeparator': ', ',
+  'app.language': 'Language',
+
+  'header.subtitle': 'Place the door you want in a photo of your space',
+
+  // Door selector
+  'selector.title': 'Choose a Door',
+  'selector.intro': 'Select one of our models from the list below, or upload your own to get started.',
+  'selector.searchPlaceholder': 'Search by name, SKU, material or finish',
+  'selector.searchLabel': 'Search doors',
+  'selector.sortBy': 'Sort by',
+  'selector.sort.featured': 'Featured',
+  'selector.sort.name': 'Name',
+  'selector.sort.price-asc': 'Price: low to high',
+  'selector.sort.price-desc': 'Price: high to low',
+  'selector.viewMode': 'View mode',
+  'selector.view.carousel': 'Carousel',
+  'selector.view.grid': 'Grid',
+  'selector.category': 'Category',
+  'selector.allCategories': 'All categories',
+  'selector.material': 'Material',
+  'selector.allMaterials': 'All materials',
+  'selector.colour': 'Colour',
+  'selector.allColours': 'All colours',
+  'selector.price': 'Price',
+  'selector.anyPrice': 'Any price',
+  'selector.usage': 'Interior / exterior',
+  'selector.bothUsages': 'Both',
+  'selector.count': '{visible} of {total} doors',
+  'selector.clearFilters': 'Clear filters',
+  'selector.noResults': 'No doors match your search. Try removing some filters.',
+  'selector.scrollBack': 'Scroll back',
+  'selector.scrollForward': 'Scroll forward',
+  'selector.uploadOwn': 'Upload Your Own Door',
+  'priceBand.budget': 'Under 25M',
+  'priceBand.mid': '25M – 50M',
+  'priceBand.premium': '50M – 100M',
+  'priceBand.luxury': '100M and up',
+
+  // Door details and cards
+  'door.sku': 'SKU',
+  'door.size': 'Size',
+  'door.material': 'Material',
+  'door.colour': 'Colour',
+  'door.use': 'Use',
+  'door.finishes': 'Finishes',
+  'door.opening': 'Opening',
+  'door.price': 'Price',
+  'door.dimensions': '{width} × {height} cm, {thickness} cm thick',
+  'door.usage.interior': 'Interior',
+  'door.usage.exterior': 'Exterior',
+  'door.openingType.single-swing': 'Single swing',
+  'door.openingType.double-swing': 'Double swing',
+  'door.openingType.sliding': 'Sliding',
+  'door.openingType.pivot': 'Pivot',
+  'door.openingType.folding': 'Folding',
+  'door.finish': 'Finish',
+  'door.asPictured': 'As pictured',
+
+  // Door configuration
+  'config.title': 'Configuration',
+  'config.hingeSide': 'Hinges',
+  'config.swing': 'Swing',
+  'config.openState': 'State',
+  'config.handleType': 'Handle',
+  'config.handleFinish': 'Finish',
+  'config.sidelight': 'Sidelight',
+  'config.transom': 'Transom',
+  'config.transomOption': 'Glazed panel above the door',
+  'config.sidesNote': 'Sides are as seen in your photo.',
+  'config.hingeSide.left': 'Left',
+  'config.hingeSide.right': 'Right',
+  'config.swing.inward': 'Inward (away from camera)',
+  'config.swing.outward': 'Outward (towards camera)',
+  'config.openState.closed': 'Closed',
+  'config.openState.ajar': 'Ajar',
+  'config.openState.open': 'Open',
+  'config.handleType.lever': 'Lever',
+  'config.handleType.knob': 'Knob',
+  'config.handleType.pull-bar': 'Pull bar',
+  'config.handleType.flush-pull': 'Flush pull',
+  'config.handleFinish.brushed-steel': 'Brushed steel',
+  'config.handleFinish.polished-chrome': 'Polished chrome',
+  'config.handleFinish.matte-black': 'Matte black',
+  'config.handleFinish.brass': 'Brass',
+  'config.handleFinish.bronze': 'Bronze',
+  'config.sidelight.none': 'None',
+  'config.sidelight.left': 'Left',
+  'config.sidelight.right': 'Right',
+  'config.sidelight.both': 'Both sides',
+  'config.summary.hinge.left': 'Left hinge',
+  'config.summary.hinge.right': 'Right hinge',
+  'config.summary.swing.inward': 'opens inward',
+  'config.summary.swing.outward': 'opens outward',
+  'config.summary.handle': '{handle} handle in {finish}',
+  'config.summary.sidelight': 'Sidelight {side}',
+  'config.summary.transom': 'transom',
+
+  // Custom door upload
+  'addDoor.title': 'Add Your Own Door',
+  'cutout.intro': 'The background has been removed automatically. Paint with "{keep}" to restore parts of the door, or with "{remove}" to erase leftover background. Faded areas will be transparent.',
+  'cutout.preview': 'Door cutout preview',
+  'cutout.brush': 'Brush',
+  'cutout.keep': 'Keep',
+  'cutout.remove': 'Remove',
+  'cutout.sensitivity': 'Sensitivity',
+  'cutout.sensitivityLabel': 'Background detection sensitivity',
+  'cutout.readError': 'Could not read the photo. {details}',
+  'cutout.empty': 'The cutout is empty. Paint over the door to keep it.',
+  'cutout.chooseAnother': 'Choose Another Photo',
+  'cutout.useOriginal': 'Use Original Photo',
+  'cutout.saving': 'Saving...',
+  'cutout.useCutout': 'Use Cutout',
+
+  // Photo upload
+  'uploader.prompt': 'Click to upload or drag & drop',
+  'uploader.preparing': 'Preparing photo...',
+  'uploader.sceneAlt': 'Uploaded scene',
+  'uploader.debug': 'Debug',
+  'uploader.debugLabel': 'Show debug view',
+  'ingestion.error.too-large': '"{fileName}" is {size}; the limit is {limit}.',
+  'ingestion.error.unsupported': '"{fileName}" is not a supported image. Please use JPEG, PNG, WebP, AVIF or HEIC.',
+  'ingestion.error.heic-unsupported': 'The HEIC decoder could not be loaded. Please check your connection and try again, or convert the photo to JPEG (on iPhone, set Camera > Formats to "Most Compatible").',
+  'ingestion.error.unreadable': '"{fileName}" could not be read. The {format} file may be damaged.',
+  'ingestion.error.too-small': 'The image is {width} × {height} px; please use one at least {minDimension} px on each side.',
+  'ingestion.notice.converted': 'Converted from {format}.',
+  'ingestion.notice.rotated': 'Rotated to match how the photo was taken.',
+  'ingestion.notice.scaled': 'Scaled down from {width} × {height} to {outputWidth} × {outputHeight} px.',
+  'ingestion.notice.location-removed': 'Removed location data.',
+  'ingestion.notice.camera-info-removed': 'Removed camera details.',
+
+  // Placement on the scene
+  'quad.corner.top-left': 'Top-left corner',
+  'quad.corner.top-right': 'Top-right corner',
+  'quad.corner.bottom-right': 'Bottom-right corner',
+  'quad.corner.bottom-left': 'Bottom-left corner',
+  'calibration.lineStart': 'Reference line start',
+  'calibration.lineEnd': 'Reference line end',
+  'calibration.instructions': 'Draw a line over something whose length you know, such as the width of an existing door or a floor tile, then enter its real length.',
+  'calibration.length': 'Length',
+  'calibration.lengthLabel': 'Reference length in centimetres',
+  'calibration.cm': 'cm',
+  'calibration.lineLabel': '{length} cm',
+  'calibration.done': 'Done',
+  'calibration.clear': 'Clear',
+  'calibration.noDimensions': 'This door has no catalog dimensions, so its expected size cannot be calculated.',
+  'calibration.expectedSize': 'Expected door size:',
+  'calibration.expectedSizeValue': '{width} × {height} px',
+  'calibration.showGuide': 'Show Size Guide',
+  'calibration.hideGuide': 'Hide Size Guide',
+  'calibration.clearCalibration': 'Clear Calibration',
+  'calibration.guideLabel': 'Expected {width} × {height} cm',
+  'placementMode.label': 'Placement mode',
+  'placementMode.replace-existing': 'Replace Existing Door',
+  'placementMode.replace-existing.hint': 'The old door is removed and the new one takes its place.',
+  'placementMode.cut-into-wall': 'Cut Into Wall',
+  'placementMode.cut-into-wall.hint': 'A new doorway with a matching frame is made in a plain wall.',
+  'placementMode.fill-opening': 'Fill Empty Opening',
+  'placementMode.fill-opening.hint': 'The door is hung in a doorway that has no door yet.',
+  'inpaint.instructions': 'Only the shaded area will change; the rest of the photo stays exactly as it is. The area starts from the door outline, or a circle around where you drop the door. Paint with the brush to make room for trim, shadows or a wider frame.',
+  'inpaint.instructionsNoBase': 'Only the shaded area will change; the rest of the photo stays exactly as it is. The area starts from the door outline, or a circle around where you drop the door (shown once you place it). Paint with the brush to make room for trim, shadows or a wider frame.',
+  'inpaint.paint': 'Paint Area',
+  'inpaint.donePainting': 'Done Painting',
+  'inpaint.brush': 'Brush',
+  'inpaint.brushSize': 'Brush size',
+  'inpaint.brushSize.small': 'Small',
+  'inpaint.brushSize.medium': 'Medium',
+  'inpaint.brushSize.large': 'Large',
+  'inpaint.clear': 'Clear Painting',
+
+  // Generation progress and errors
+  'stage.resize': 'Preparing images',
+  'stage.mark': 'Marking the placement',
+  'stage.describe': 'Describing the location',
+  'stage.compose': 'Generating the scene',
+  'stage.crop': 'Finishing the image',
+  'stepper.seconds': '{seconds}s',
+  'stepper.elapsed': 'Elapsed {time}',
+  'stepper.failedAt': 'Failed at "{stage}" after {time}',
+  'retry.reason.rate-limited': 'Rate limited',
+  'retry.reason.server-error': 'Server error ({status})',
+  'retry.reason.timed-out': 'Timed out',
+  'retry.reason.connection': 'Connection problem',
+  'retry.notice': '{reason} during the "{step}" step. Retrying (attempt {attempt} of {maxAttempts})...',
+  'generationError.safety-blocked.title': 'The Request Was Blocked',
+  'generationError.safety-blocked.explanation': "The model's content filters declined this photo or door. Retrying the same request usually gives the same result; try another door or photo instead.",
+  'generationError.quota-exceeded.title': 'Usage Limit Reached',
+  'generationError.quota-exceeded.explanation': 'The API key has used up its request quota or rate limit. Wait a minute and retry; if it keeps happening, check the limits for your key.',
+  'generationError.no-image.title': 'No Image Came Back',
+  'generationError.no-image.explanation': 'The model answered without an image. This happens now and then, and retrying the same placement usually works.',
+  'generationError.network.title': 'Connection Problem',
+  'generationError.network.explanation': 'The image service could not be reached or took too long to answer. Check your connection and retry.',
+  'generationError.invalid-input.title': 'The Images Could Not Be Used',
+  'generationError.invalid-input.explanation': 'The door or scene image could not be read, or the model rejected it. Try another door image or upload a different photo.',
+  'generationError.unknown.title': 'An Error Occurred',
+  'generationError.unknown.explanation': 'Something unexpected went wrong while generating the image.',
+  'generationError.details': 'Details: {details}',
+  'generationWarning.description-fallback': 'The spot could not be described, so the door was placed from its position alone.',
+  'recovery.retry': 'Retry Placement',
+  'recovery.change-spot': 'Choose Another Spot',
+  'recovery.change-door': 'Change Door',
+  'recovery.change-scene': 'Change Space',
+  'recovery.start-over': 'Start Over',
+
+  // Results
+  'candidates.title': 'Candidates for this placement',
+  'candidates.alt': 'Candidate {number}',
+  'candidates.inUse': 'In use',
+  'candidates.use': 'Use #{number}',
+  'versions.undo': 'Undo',
+  'versions.undoTitle': 'Undo (Ctrl+Z)',
+  'versions.redo': 'Redo',
+  'versions.redoTitle': 'Redo (Ctrl+Shift+Z)',
+  'versions.list': 'Scene versions',
+  'versions.original': 'Original',
+  'versions.generated': '#{number} · {door}',
+  'versions.current': '{label} (current)',
+  'versions.continueFrom': 'Continue from {label}',
+  'compare.title': 'Before & After',
+  'compare.mode': 'Comparison mode',
+  'compare.mode.slider': 'Slider',
+  'compare.mode.flicker': 'Flicker',
+  'compare.mode.side-by-side': 'Side by Side',
+  'compare.before': 'Before',
+  'compare.after': 'After',
+  'compare.beforeAlt': 'Original photo',
+  'compare.afterAlt': 'Generated result',
+  'compare.split': 'Split position',
+  'compare.showBefore': 'Show Before',
+  'compare.showAfter': 'Show After',
+  'compare.autoFlicker': 'Auto flicker',
+  'debug.title': 'Debug View',
+  'debug.intro': 'This is the image sent to the AI, with a red marker or outline indicating the placement.',
+  'debug.imageAlt': 'Debug view of marked scene',
+  'debug.promptTitle': 'Final Prompt to Image Model',
+  'debug.templates': 'Templates:',
+  'debug.describeTemplate': '(description)',
+  'debug.compositeTemplate': '(composition)',
+  'debug.noTemplates': 'Template version not recorded.',
+  'debug.cacheTitle': 'Generation Cache',
+  'debug.cacheIntro': 'Steps found in the cache did not run again. Keys are hashes of each step\'s inputs.',
+  'debug.noCache': 'Cache use was not recorded for this result.',
+  'debug.cache.resize.door': 'Resized door image',
+  'debug.cache.resize.scene': 'Resized scene image',
+  'debug.cache.resize.mask': 'Resized mask',
+  'debug.cache.describe': 'Location description',
+  'debug.cache.compose': 'Composite, candidate {number}',
+  'debug.cache.hit': 'Cache hit',
+  'debug.cache.miss': 'Cache miss',
+
+  // Batch rendering
+  'batch.title': 'Try Every Door',
+  'batch.selected': '{selected} of {total} doors selected',
+  'batch.selectAll': 'Select All',
+  'batch.selectNone': 'Select None',
+  'batch.needsPlacement': 'Place a door or outline the opening on your photo first, so every door uses the same spot.',
+  'batch.renderOne': 'Render {count} Door',
+  'batch.renderMany': 'Render {count} Doors',
+  'batch.finished': '{finished} of {total} finished',
+  'batch.cancel': 'Cancel',
+  'batch.newBatch': 'New Batch',
+  'batch.resultAlt': '{door} in your space',
+  'batch.useThis': 'Use This',
+  'batch.sceneGone': 'The photo this batch was rendered on is no longer open, so its results can only be viewed.',
+  'batch.status.queued': 'Queued',
+  'batch.status.running': 'Rendering...',
+  'batch.status.done': 'Done',
+  'batch.status.failed': 'Failed',
+  'batch.status.cancelled': 'Cancelled',
+
+  // Projects
+  'projects.button': 'Projects',
+  'projects.title': 'Your Projects',
+  'projects.autosave': 'Projects are saved in this browser automatically.',
+  'projects.usage': '{size} used by projects.',
+  'projects.usageWithQuota': '{size} used by projects · {usage} of {quota} available storage in use.',
+  'projects.readError': 'Could not read saved projects.',
+  'projects.empty': 'No saved projects yet.',
+  'projects.name': 'Project name',
+  'projects.open': '(open)',
+  'projects.updated': 'Updated {date} · {size}',
+  'projects.openButton': 'Open',
+  'projects.rename': 'Rename',
+  'projects.delete': 'Delete',
+  'projects.confirmDelete': 'Delete "{name}"? Its photos and results will be removed from this browser.',
+  'projects.new': 'New Project',
+  'projects.defaultName': 'Project {date}',
+  'projects.notFound': 'The saved project could not be found.',
+  'projects.openError': 'Could not open the project. {details}',
+  'projects.renameError': 'Could not rename the project. {details}',
+  'projects.deleteError': 'Could not delete the project. {details}',
+
+  // Main screen
+  'main.errorTitle': 'An Error Occurred',
+  'main.tryAgain': 'Try Again',
+  'main.unexpectedError': 'An unexpected error occurred. Please try again.',
+  'main.loadingCatalog': 'Loading catalog...',
+  'main.loadingDoor': 'Loading door...',
+  'main.catalogError': 'The door catalog could not be loaded. {details}',
+  'catalogWarning.entry': 'Catalog entry #{number}',
+  'catalogWarning.entryNamed': 'Catalog entry #{number} ("{name}")',
+  'catalogWarning.invalid-entry': '{entry} was skipped: {problems}.',
+  'catalogWarning.duplicate-id': '{entry} was skipped: id {id} is used by another door.',
+  'catalogWarning.image-missing': '"{door}" was removed from the list: its image could not be found.',
+  'catalogWarning.finish-image-missing': '"{door}" in {finish}: its photo could not be found, so the finish will be shown by recolouring the main image.',
+  'main.doorImageError': 'Could not load the door image. Details: {details}',
+  'main.doorLoadRetry': 'Could not load "{door}". Please select it again. Details: {details}',
+  'main.finishError': 'Could not show the door in this finish. Details: {details}',
+  'main.selectedDoor': 'Selected Door',
+  'main.changeDoor': 'Change Door',
+  'main.uploadSpace': 'Upload Your Space',
+  'main.uploadHint': 'Now, upload a photo of your space to see the door in it.',
+  'main.door': 'Door',
+  'main.yourSpace': 'Your Space',
+  'main.generatedDoor': '{door}:',
+  'main.generatedDoorInFinish': '{door} in {finish}:',
+  'main.compare': 'Compare',
+  'main.calibrate': 'Calibrate Scale',
+  'main.stopCalibrating': 'Stop Calibrating',
+  'main.outline': 'Outline Opening',
+  'main.removeOutline': 'Remove Outline',
+  'main.maskedMode': 'Edit Door Area Only',
+  'main.wholePhoto': 'Edit Whole Photo',
+  'main.placeInOutline': 'Place Door in Outline',
+  'main.tryEveryDoor': 'Try Every Door',
+  'main.variations': 'Variations',
+  'main.variationsLabel': 'Candidates per placement',
+  'main.changeSpace': 'Change Space',
+  'main.cancel': 'Cancel',
+  'main.retryPlacement': 'Retry Placement',
+  'main.dismiss': 'Dismiss',
+  'main.outlineHint': 'Drag the four corners onto the door opening, then drop the door on the photo or press "Place Door in Outline".',
+  'main.dropHint': 'Drag the door onto a location in your photo, or simply click where you want it.',
+  'main.draggingDoor': 'Dragging door',
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,350 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MessageKey } from './en';
+
+// Persian messages. Typed against the English catalog so a missing key fails the type check.
+
+const fa: Record<MessageKey, string> = {
+  'app.title': 'نمایشگر درب آتاک',
+  'app.unknownError': 'خطای ناشناخته‌ای رخ داد.',
+  'app.closeModal': 'بستن پنجره',
+  'app.listSeparator': '، ',
+  'app.language': 'زبان',
+
+  'header.subtitle': 'درب مورد نظر خود را در عکس محل مورد نظر قرار دهید',
+
+  // Door selector
+  'selector.title': 'یک درب انتخاب کنید',
+  'selector.intro': 'برای شروع، یکی از مدل‌های ما را از فهرست زیر انتخاب کنید یا عکس درب خودتان را بارگذاری کنید.',
+  'selector.searchPlaceholder': 'جستجو بر اساس نام، کد کالا، جنس یا پوشش',
+  'selector.searchLabel': 'جستجوی درب‌ها',
+  'selector.sortBy': 'مرتب‌سازی',
+  'selector.sort.featured': 'پیشنهادی',
+  'selector.sort.name': 'نام',
+  'selector.sort.price-asc': 'قیمت: ارزان به گران',
+  'selector.sort.price-desc': 'قیمت: گران به ارزان',
+  'selector.viewMode': 'نحوه نمایش',
+  'selector.view.carousel': 'اسلایدی',
+  'selector.view.grid': 'شبکه‌ای',
+  'selector.category': 'دسته',
+  'selector.allCategories': 'همه دسته‌ها',
+  'selector.material': 'جنس',
+  'selector.allMaterials': 'همه جنس‌ها',
+  'selector.colour': 'رنگ',
+  'selector.allColours': 'همه رنگ‌ها',
+  'selector.price': 'قیمت',
+  'selector.anyPrice': 'همه قیمت‌ها',
+  'selector.usage': 'داخلی / خارجی',
+  'selector.bothUsages': 'هر دو',
+  'selector.count': '{visible} از {total} درب',
+  'selector.clearFilters': 'حذف فیلترها',
+  'selector.noResults': 'هیچ دربی با جستجوی شما مطابقت ندارد. برخی از فیلترها را بردارید.',
+  'selector.scrollBack': 'قبلی‌ها',
+  'selector.scrollForward': 'بعدی‌ها',
+  'selector.uploadOwn': 'بارگذاری درب خودتان',
+  'priceBand.budget': 'زیر ۲۵ میلیون',
+  'priceBand.mid': '۲۵ تا ۵۰ میلیون',
+  'priceBand.premium': '۵۰ تا ۱۰۰ میلیون',
+  'priceBand.luxury': '۱۰۰ میلیون و بیشتر',
+
+  // Door details and cards
+  'door.sku': 'کد کالا',
+  'door.size': 'ابعاد',
+  'door.material': 'جنس',
+  'door.colour': 'رنگ',
+  'door.use': 'کاربری',
+  'door.finishes': 'پوشش‌ها',
+  'door.opening': 'نوع بازشو',
+  'door.price': 'قیمت',
+  'door.dimensions': '{width} × {height} سانتی‌متر، ضخامت {thickness} سانتی‌متر',
+  'door.usage.interior': 'داخلی',
+  'door.usage.exterior': 'خارجی',
+  'door.openingType.single-swing': 'لولایی یک‌لنگه',
+  'door.openingType.double-swing': 'لولایی دولنگه',
+  'door.openingType.sliding': 'کشویی',
+  'door.openingType.pivot': 'پاشنه‌ای (پیوت)',
+  'door.openingType.folding': 'تاشو',
+  'door.finish': 'پوشش',
+  'door.asPictured': 'مطابق تصویر',
+
+  // Door configuration
+  'config.title': 'پیکربندی',
+  'config.hingeSide': 'لولاها',
+  'config.swing': 'جهت بازشدن',
+  'config.openState': 'وضعیت',
+  'config.handleType': 'دستگیره',
+  'config.handleFinish': 'رنگ یراق',
+  'config.sidelight': 'شیشه کناری',
+  'config.transom': 'نورگیر بالا',
+  'config.transomOption': 'پنل شیشه‌ای بالای درب',
+  'config.sidesNote': 'چپ و راست همان‌طور است که در عکس شما دیده می‌شود.',
+  'config.hingeSide.left': 'چپ',
+  'config.hingeSide.right': 'راست',
+  'config.swing.inward': 'به داخل (دور از دوربین)',
+  'config.swing.outward': 'به بیرون (به سمت دوربین)',
+  'config.openState.closed': 'بسته',
+  'config.openState.ajar': 'نیمه‌باز',
+  'config.openState.open': 'باز',
+  'config.handleType.lever': 'اهرمی',
+  'config.handleType.knob': 'گرد',
+  'config.handleType.pull-bar': 'میله‌ای',
+  'config.handleType.flush-pull': 'توکار',
+  'config.handleFinish.brushed-steel': 'استیل مات',
+  'config.handleFinish.polished-chrome': 'کروم براق',
+  'config.handleFinish.matte-black': 'مشکی مات',
+  'config.handleFinish.brass': 'برنجی',
+  'config.handleFinish.bronze': 'برنزی',
+  'config.sidelight.none': 'ندارد',
+  'config.sidelight.left': 'چپ',
+  'config.sidelight.right': 'راست',
+  'config.sidelight.both': 'هر دو طرف',
+  'config.summary.hinge.left': 'لولا سمت چپ',
+  'config.summary.hinge.right': 'لولا سمت راست',
+  'config.summary.swing.inward': 'بازشو به داخل',
+  'config.summary.swing.outward': 'بازشو به بیرون',
+  'config.summary.handle': 'دستگیره {handle} با رنگ {finish}',
+  'config.summary.sidelight': 'شیشه کناری {side}',
+  'config.summary.transom': 'نورگیر بالا',
+
+  // Custom door upload
+  'addDoor.title': 'افزودن درب خودتان',
+  'cutout.intro': 'پس‌زمینه به‌طور خودکار حذف شد. با «{keep}» بخش‌هایی از درب را برگردانید یا با «{remove}» باقی‌مانده پس‌زمینه را پاک کنید. بخش‌های کم‌رنگ شفاف خواهند شد.',
+  'cutout.preview': 'پیش‌نمایش درب جداشده',
+  'cutout.brush': 'قلم',
+  'cutout.keep': 'نگه‌داشتن',
+  'cutout.remove': 'حذف',
+  'cutout.sensitivity': 'حساسیت',
+  'cutout.sensitivityLabel': 'حساسیت تشخیص پس‌زمینه',
+  'cutout.readError': 'عکس خوانده نشد. {details}',
+  'cutout.empty': 'برش خالی است. روی درب رنگ بکشید تا نگه داشته شود.',
+  'cutout.chooseAnother': 'انتخاب عکس دیگر',
+  'cutout.useOriginal': 'استفاده از عکس اصلی',
+  'cutout.saving': 'در حال ذخیره...',
+  'cutout.useCutout': 'استفاده از درب جداشده',
+
+  // Photo upload
+  'uploader.prompt': 'برای بارگذاری کلیک کنید یا عکس را اینجا رها کنید',
+  'uploader.preparing': 'در حال آماده‌سازی عکس...',
+  'uploader.sceneAlt': 'عکس بارگذاری‌شده',
+  'uploader.debug': 'اشکال‌زدایی',
+  'uploader.debugLabel': 'نمایش نمای اشکال‌زدایی',
+  'ingestion.error.too-large': 'حجم «{fileName}» {size} است؛ حداکثر مجاز {limit} است.',
+  'ingestion.error.unsupported': '«{fileName}» تصویر پشتیبانی‌شده‌ای نیست. لطفاً از JPEG، PNG، WebP، AVIF یا HEIC استفاده کنید.',
+  'ingestion.error.heic-unsupported': 'رمزگشای HEIC بارگیری نشد. لطفاً اتصال خود را بررسی کنید و دوباره تلاش کنید، یا عکس را به JPEG تبدیل کنید (در آیفون، Camera > Formats را روی «Most Compatible» بگذارید).',
+  'ingestion.error.unreadable': '«{fileName}» خوانده نشد. ممکن است فایل {format} آسیب دیده باشد.',
+  'ingestion.error.too-small': 'ابعاد تصویر {width} × {height} پیکسل است؛ لطفاً تصویری با دست‌کم {minDimension} پیکسل در هر ضلع استفاده کنید.',
+  'ingestion.notice.converted': 'از {format} تبدیل شد.',
+  'ingestion.notice.rotated': 'مطابق جهت عکاسی چرخانده شد.',
+  'ingestion.notice.scaled': 'از {width} × {height} به {outputWidth} × {outputHeight} پیکسل کوچک شد.',
+  'ingestion.notice.location-removed': 'اطلاعات موقعیت مکانی حذف شد.',
+  'ingestion.notice.camera-info-removed': 'مشخصات دوربین حذف شد.',
+
+  // Placement on the scene
+  'quad.corner.top-left': 'گوشه بالا چپ',
+  'quad.corner.top-right': 'گوشه بالا راست',
+  'quad.corner.bottom-right': 'گوشه پایین راست',
+  'quad.corner.bottom-left': 'گوشه پایین چپ',
+  'calibration.lineStart': 'ابتدای خط مرجع',
+  'calibration.lineEnd': 'انتهای خط مرجع',
+  'calibration.instructions': 'روی چیزی که طولش را می‌دانید، مثل عرض یک درب موجود یا یک کاشی کف، خطی بکشید و سپس طول واقعی آن را وارد کنید.',
+  'calibration.length': 'طول',
+  'calibration.lengthLabel': 'طول مرجع به سانتی‌متر',
+  'calibration.cm': 'سانتی‌متر',
+  'calibration.lineLabel': '{length} سانتی‌متر',
+  'calibration.done': 'تمام',
+  'calibration.clear': 'پاک کردن',
+  'calibration.noDimensions': 'ابعاد این درب در کاتالوگ ثبت نشده است، بنابراین اندازه مورد انتظار آن قابل محاسبه نیست.',
+  'calibration.expectedSize': 'اندازه مورد انتظار درب:',
+  'calibration.expectedSizeValue': '{width} × {height} پیکسل',
+  'calibration.showGuide': 'نمایش راهنمای اندازه',
+  'calibration.hideGuide': 'پنهان کردن راهنمای اندازه',
+  'calibration.clearCalibration': 'حذف مقیاس',
+  'calibration.guideLabel': 'اندازه مورد انتظار {width} × {height} سانتی‌متر',
+  'placementMode.label': 'نحوه جای‌گذاری',
+  'placementMode.replace-existing': 'جایگزینی درب موجود',
+  'placementMode.replace-existing.hint': 'درب قبلی برداشته می‌شود و درب جدید جای آن قرار می‌گیرد.',
+  'placementMode.cut-into-wall': 'ایجاد در دیوار',
+  'placementMode.cut-into-wall.hint': 'یک درگاه جدید با چارچوب مناسب در دیوار ساده ساخته می‌شود.',
+  'placementMode.fill-opening': 'نصب در درگاه خالی',
+  'placementMode.fill-opening.hint': 'درب در درگاهی که هنوز درب ندارد نصب می‌شود.',
+  'inpaint.instructions': 'فقط ناحیه سایه‌خورده تغییر می‌کند و بقیه عکس دقیقاً همان‌طور می‌ماند. این ناحیه از طرح درگاه، یا دایره‌ای دور جایی که درب را رها می‌کنید، شروع می‌شود. با قلم رنگ کنید تا برای قاب، سایه‌ها یا چارچوب پهن‌تر جا باز شود.',
+  'inpaint.instructionsNoBase': 'فقط ناحیه سایه‌خورده تغییر می‌کند و بقیه عکس دقیقاً همان‌طور می‌ماند. این ناحیه از طرح درگاه، یا دایره‌ای دور جایی که درب را رها می‌کنید، شروع می‌شود (پس از جای‌گذاری نمایش داده می‌شود). با قلم رنگ کنید تا برای قاب، سایه‌ها یا چارچوب پهن‌تر جا باز شود.',
+  'inpaint.paint': 'رنگ کردن ناحیه',
+  'inpaint.donePainting': 'پایان رنگ کردن',
+  'inpaint.brush': 'قلم',
+  'inpaint.brushSize': 'اندازه قلم',
+  'inpaint.brushSize.small': 'کوچک',
+  'inpaint.brushSize.medium': 'متوسط',
+  'inpaint.brushSize.large': 'بزرگ',
+  'inpaint.clear': 'پاک کردن رنگ',
+
+  // Generation progress and errors
+  'stage.resize': 'آماده‌سازی تصاویر',
+  'stage.mark': 'علامت‌گذاری محل',
+  'stage.describe': 'توصیف محل',
+  'stage.compose': 'ساخت تصویر',
+  'stage.crop': 'نهایی کردن تصویر',
+  'stepper.seconds': '{seconds} ثانیه',
+  'stepper.elapsed': 'زمان سپری‌شده: {time}',
+  'stepper.failedAt': 'ناموفق در مرحله «{stage}» پس از {time}',
+  'retry.reason.rate-limited': 'محدودیت تعداد درخواست',
+  'retry.reason.server-error': 'خطای سرور ({status})',
+  'retry.reason.timed-out': 'پایان مهلت پاسخ',
+  'retry.reason.connection': 'مشکل اتصال',
+  'retry.notice': '{reason} در مرحله «{step}». تلاش دوباره (تلاش {attempt} از {maxAttempts})...',
+  'generationError.safety-blocked.title': 'درخواست مسدود شد',
+  'generationError.safety-blocked.explanation': 'فیلترهای محتوای مدل این عکس یا درب را نپذیرفتند. تکرار همین درخواست معمولاً همین نتیجه را می‌دهد؛ به‌جای آن درب یا عکس دیگری را امتحان کنید.',
+  'generationError.quota-exceeded.title': 'سقف استفاده پر شده است',
+  'generationError.quota-exceeded.explanation': 'سهمیه یا محدودیت تعداد درخواست کلید API تمام شده است. یک دقیقه صبر کنید و دوباره تلاش کنید؛ اگر تکرار شد، محدودیت‌های کلید خود را بررسی کنید.',
+  'generationError.no-image.title': 'تصویری برنگشت',
+  'generationError.no-image.explanation': 'مدل بدون تصویر پاسخ داد. این گاهی پیش می‌آید و تکرار همین جای‌گذاری معمولاً جواب می‌دهد.',
+  'generationError.network.title': 'مشکل اتصال',
+  'generationError.network.explanation': 'سرویس تصویر در دسترس نبود یا پاسخش بیش از حد طول کشید. اتصال خود را بررسی کنید و دوباره تلاش کنید.',
+  'generationError.invalid-input.title': 'تصاویر قابل استفاده نبودند',
+  'generationError.invalid-input.explanation': 'تصویر درب یا محل خوانده نشد یا مدل آن را نپذیرفت. تصویر درب دیگری را امتحان کنید یا عکس دیگری بارگذاری کنید.',
+  'generationError.unknown.title': 'خطایی رخ داد',
+  'generationError.unknown.explanation': 'هنگام ساخت تصویر مشکل غیرمنتظره‌ای پیش آمد.',
+  'generationError.details': 'جزئیات: {details}',
+  'generationWarning.description-fallback': 'محل توصیف نشد، بنابراین درب فقط بر اساس موقعیتش قرار داده شد.',
+  'recovery.retry': 'تکرار جای‌گذاری',
+  'recovery.change-spot': 'انتخاب جای دیگر',
+  'recovery.change-door': 'تغییر درب',
+  'recovery.change-scene': 'تغییر محل',
+  'recovery.start-over': 'شروع دوباره',
+
+  // Results
+  'candidates.title': 'گزینه‌های این جای‌گذاری',
+  'candidates.alt': 'گزینه {number}',
+  'candidates.inUse': 'در حال استفاده',
+  'candidates.use': 'استفاده از #{number}',
+  'versions.undo': 'واگرد',
+  'versions.undoTitle': 'واگرد (Ctrl+Z)',
+  'versions.redo': 'از نو',
+  'versions.redoTitle': 'از نو (Ctrl+Shift+Z)',
+  'versions.list': 'نسخه‌های تصویر',
+  'versions.original': 'اصلی',
+  'versions.generated': '#{number} · {door}',
+  'versions.current': '{label} (فعلی)',
+  'versions.continueFrom': 'ادامه از {label}',
+  'compare.title': 'قبل و بعد',
+  'compare.mode': 'نحوه مقایسه',
+  'compare.mode.slider': 'لغزنده',
+  'compare.mode.flicker': 'چشمک‌زن',
+  'compare.mode.side-by-side': 'کنار هم',
+  'compare.before': 'قبل',
+  'compare.after': 'بعد',
+  'compare.beforeAlt': 'عکس اصلی',
+  'compare.afterAlt': 'نتیجه ساخته‌شده',
+  'compare.split': 'محل برش',
+  'compare.showBefore': 'نمایش قبل',
+  'compare.showAfter': 'نمایش بعد',
+  'compare.autoFlicker': 'چشمک خودکار',
+  'debug.title': 'نمای اشکال‌زدایی',
+  'debug.intro': 'این تصویری است که برای هوش مصنوعی فرستاده شد؛ نشانگر یا طرح قرمز محل جای‌گذاری را نشان می‌دهد.',
+  'debug.imageAlt': 'نمای اشکال‌زدایی از تصویر علامت‌گذاری‌شده',
+  'debug.promptTitle': 'دستور نهایی به مدل تصویر',
+  'debug.templates': 'قالب‌ها:',
+  'debug.describeTemplate': '(توصیف)',
+  'debug.compositeTemplate': '(ترکیب)',
+  'debug.noTemplates': 'نسخه قالب ثبت نشده است.',
+  'debug.cacheTitle': 'حافظه پنهان تولید',
+  'debug.cacheIntro': 'مراحلی که در حافظه پنهان پیدا شدند دوباره اجرا نشدند. کلیدها هش ورودی‌های هر مرحله هستند.',
+  'debug.noCache': 'استفاده از حافظه پنهان برای این نتیجه ثبت نشده است.',
+  'debug.cache.resize.door': 'تصویر کوچک‌شده درب',
+  'debug.cache.resize.scene': 'تصویر کوچک‌شده فضا',
+  'debug.cache.resize.mask': 'ماسک کوچک‌شده',
+  'debug.cache.describe': 'توصیف محل',
+  'debug.cache.compose': 'تصویر ترکیبی، گزینه {number}',
+  'debug.cache.hit': 'پیدا شد',
+  'debug.cache.miss': 'پیدا نشد',
+
+  // Batch rendering
+  'batch.title': 'امتحان همه درب‌ها',
+  'batch.selected': '{selected} از {total} درب انتخاب شده',
+  'batch.selectAll': 'انتخاب همه',
+  'batch.selectNone': 'لغو انتخاب همه',
+  'batch.needsPlacement': 'ابتدا یک درب را روی عکس قرار دهید یا طرح درگاه را بکشید تا همه درب‌ها در همان جا قرار بگیرند.',
+  'batch.renderOne': 'ساخت تصویر {count} درب',
+  'batch.renderMany': 'ساخت تصویر {count} درب',
+  'batch.finished': '{finished} از {total} تمام شده',
+  'batch.cancel': 'لغو',
+  'batch.newBatch': 'دسته جدید',
+  'batch.resultAlt': '{door} در محل شما',
+  'batch.useThis': 'استفاده از این',
+  'batch.sceneGone': 'عکسی که این دسته روی آن ساخته شد دیگر باز نیست، بنابراین نتایج آن فقط قابل مشاهده است.',
+  'batch.status.queued': 'در صف',
+  'batch.status.running': 'در حال ساخت...',
+  'batch.status.done': 'تمام شد',
+  'batch.status.failed': 'ناموفق',
+  'batch.status.cancelled': 'لغو شد',
+
+  // Projects
+  'projects.button': 'پروژه‌ها',
+  'projects.title': 'پروژه‌های شما',
+  'projects.autosave': 'پروژه‌ها به‌طور خودکار در همین مرورگر ذخیره می‌شوند.',
+  'projects.usage': '{size} فضا توسط پروژه‌ها استفاده شده است.',
+  'projects.usageWithQuota': '{size} فضا توسط پروژه‌ها استفاده شده است · {usage} از {quota} فضای در دسترس اشغال است.',
+  'projects.readError': 'پروژه‌های ذخیره‌شده خوانده نشدند.',
+  'projects.empty': 'هنوز پروژه‌ای ذخیره نشده است.',
+  'projects.name': 'نام پروژه',
+  'projects.open': '(باز)',
+  'projects.updated': 'به‌روزرسانی {date} · {size}',
+  'projects.openButton': 'باز کردن',
+  'projects.rename': 'تغییر نام',
+  'projects.delete': 'حذف',
+  'projects.confirmDelete': '«{name}» حذف شود؟ عکس‌ها و نتایج آن از این مرورگر پاک خواهند شد.',
+  'projects.new': 'پروژه جدید',
+  'projects.defaultName': 'پروژه {date}',
+  'projects.notFound': 'پروژه ذخیره‌شده پیدا نشد.',
+  'projects.openError': 'پروژه باز نشد. {details}',
+  'projects.renameError': 'نام پروژه تغییر نکرد. {details}',
+  'projects.deleteError': 'پروژه حذف نشد. {details}',
+
+  // Main screen
+  'main.errorTitle': 'خطایی رخ داد',
+  'main.tryAgain': 'تلاش دوباره',
+  'main.unexpectedError': 'خطای غیرمنتظره‌ای رخ داد. لطفاً دوباره تلاش کنید.',
+  'main.loadingCatalog': 'در حال بارگیری کاتالوگ...',
+  'main.loadingDoor': 'در حال بارگیری درب...',
+  'main.catalogError': 'کاتالوگ درب‌ها بارگیری نشد. {details}',
+  'catalogWarning.entry': 'مورد شماره {number} کاتالوگ',
+  'catalogWarning.entryNamed': 'مورد شماره {number} کاتالوگ («{name}»)',
+  'catalogWarning.invalid-entry': '{entry} نادیده گرفته شد: {problems}.',
+  'catalogWarning.duplicate-id': '{entry} نادیده گرفته شد: شناسه {id} برای درب دیگری استفاده شده است.',
+  'catalogWarning.image-missing': '«{door}» از فهرست حذف شد: تصویر آن پیدا نشد.',
+  'catalogWarning.finish-image-missing': '«{door}» در {finish}: عکس آن پیدا نشد، بنابراین این رنگ با رنگ‌آمیزی تصویر اصلی نمایش داده می‌شود.',
+  'main.doorImageError': 'تصویر درب بارگیری نشد. جزئیات: {details}',
+  'main.doorLoadRetry': '«{door}» بارگیری نشد. لطفاً دوباره آن را انتخاب کنید. جزئیات: {details}',
+  'main.finishError': 'نمایش درب با این پوشش ممکن نشد. جزئیات: {details}',
+  'main.selectedDoor': 'درب انتخاب‌شده',
+  'main.changeDoor': 'تغییر درب',
+  'main.uploadSpace': 'عکس محل خود را بارگذاری کنید',
+  'main.uploadHint': 'اکنون عکسی از محل خود بارگذاری کنید تا درب را در آن ببینید.',
+  'main.door': 'درب',
+  'main.yourSpace': 'محل شما',
+  'main.generatedDoor': '{door}:',
+  'main.generatedDoorInFinish': '{door} با پوشش {finish}:',
+  'main.compare': 'مقایسه',
+  'main.calibrate': 'تنظیم مقیاس',
+  'main.stopCalibrating': 'پایان تنظیم مقیاس',
+  'main.outline': 'کشیدن طرح درگاه',
+  'main.removeOutline': 'حذف طرح درگاه',
+  'main.maskedMode': 'ویرایش فقط ناحیه درب',
+  'main.wholePhoto': 'ویرایش کل عکس',
+  'main.placeInOutline': 'قرار دادن درب در طرح',
+  'main.tryEveryDoor': 'امتحان همه درب‌ها',
+  'main.variations': 'تعداد گزینه‌ها',
+  'main.variationsLabel': 'تعداد گزینه برای هر جای‌گذاری',
+  'main.changeSpace': 'تغییر محل',
+  'main.cancel': 'لغو',
+  'main.retryPlacement': 'تکرار جای‌گذاری',
+  'main.dismiss': 'بستن',
+  'main.outlineHint': 'چهار گوشه را روی درگاه بکشید، سپس درب را روی عکس رها کنید یا «قرار دادن درب در طرح» را بزنید.',
+  'main.dropHint': 'درب را روی محل دلخواه در عکس بکشید، یا فقط روی همان‌جا کلیک کنید.',
+  'main.draggingDoor': 'در حال جابه‌جایی درب',
+};
+
+export default fa;
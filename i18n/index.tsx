@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import en, { MessageKey } from './en';
+import fa from './fa';
+
+export type { MessageKey } from './en';
+
+export type Locale = 'fa' | 'en';
+
+/** Values for a message's `{name}` placeholders. Numbers are written in the locale's digits. */
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/** The languages offered by the switcher, each labelled in its own language. */
+export const LOCALES: { locale: Locale; label: string }[] = [
+  { locale: 'fa', label: 'فارسی' },
+  { locale: 'en', label: 'English' },
+];
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = { fa, en };
+
+// Intl locales for numbers, prices and dates; 'fa-IR' writes Persian digits.
+const intlLocales: Record<Locale, string> = {
+  fa: 'fa-IR',
+  en: 'en-US',
+};
+
+const LOCALE_KEY = 'atak:locale';
+
+const isLocale = (value: unknown): value is Locale => value === 'fa' || value === 'en';
+
+// A saved choice wins; otherwise Persian, unless the browser asks for English.
+const getInitialLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+  return navigator.language.toLowerCase().startsWith('en') ? 'en' : 'fa';
+};
+
+export const getIntlLocale = (locale: Locale): string => intlLocales[locale];
+
+export const getDirection = (locale: Locale): 'rtl' | 'ltr' => locale === 'fa' ? 'rtl' : 'ltr';
+
+export const formatNumber = (value: number, locale: Locale, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(intlLocales[locale], options).format(value);
+
+/** Looks up a message and fills in its placeholders; unknown placeholders are left as they are. */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string =>
+  catalogs[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params?.[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(value, locale) : value;
+  });
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  dir: 'rtl' | 'ltr';
+  /** The Intl locale to pass to `toLocaleString` and the formatters in services. */
+  intlLocale: string;
+  t: Translate;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+/**
+ * Holds the chosen language, saves it for the next visit, and keeps the
+ * document's language, direction and title in step with it.
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getInitialLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    localStorage.setItem(LOCALE_KEY, next);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = getDirection(locale);
+    document.title = translate(locale, 'app.title');
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    dir: getDirection(locale),
+    intlLocale: intlLocales[locale],
+    t: (key, params) => translate(locale, key, params),
+    formatNumber: (number, options) => formatNumber(number, locale, options),
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside an I18nProvider.');
+  }
+  return context;
+};
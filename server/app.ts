@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { GenerationErrorKind, toGenerationError } from '../services/generationErrors';
+import { getErrorStatus } from '../services/retry';
+import { GeneratedImage } from '../services/providers/types';
+import {
+  GENERATE_PATH,
+  PROXY_MODELS,
+  ProxyErrorResponse,
+  ProxyGenerateRequest,
+  ProxyGenerateResponse,
+  ProxyStep,
+} from '../services/providers/proxyProtocol';
+import { ServerConfig } from './config';
+import { GeminiUpstream } from './gemini';
+import { createRateLimiter } from './rateLimiter';
+
+const ALLOWED_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp']);
+
+// How many images each step takes: the marked scene; or the product, the scene and an optional mask.
+const IMAGE_COUNTS: Record<ProxyStep, { min: number; max: number }> = {
+  describe: { min: 1, max: 1 },
+  composite: { min: 2, max: 3 },
+};
+
+/** A request the server answers with an error before, or instead of, calling Gemini. */
+class HttpError extends Error {
+  readonly status: number;
+  readonly kind: GenerationErrorKind;
+
+  constructor(status: number, kind: GenerationErrorKind, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.kind = kind;
+  }
+}
+
+/** One line per request, written as JSON to stdout. */
+interface UsageRecord {
+  time: string;
+  client: string;
+  step: ProxyStep | null;
+  model: string | null;
+  status: number;
+  durationMs: number;
+  requestBytes: number;
+  responseBytes: number;
+  totalTokens: number | null;
+  error?: string;
+}
+
+const logUsage = (record: UsageRecord) => console.log(JSON.stringify(record));
+
+const getClientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwardedFor === 'string') {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+// Collects the body, rejecting as soon as it passes the limit instead of buffering the rest.
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer> => new Promise((resolve, reject) => {
+  const tooLarge = () => new HttpError(413, 'invalid-input', `The request is larger than the ${Math.round(maxBytes / 1024 / 1024)} MB limit.`);
+  if (Number(req.headers['content-length']) > maxBytes) {
+    reject(tooLarge());
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      req.pause();
+      reject(tooLarge());
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const isImage = (value: unknown): value is GeneratedImage =>
+  typeof value === 'object' && value !== null &&
+  ALLOWED_IMAGE_TYPES.has((value as GeneratedImage).mimeType) &&
+  typeof (value as GeneratedImage).data === 'string';
+
+const parseGenerateRequest = (body: Buffer, maxPromptLength: number): ProxyGenerateRequest => {
+  let parsed: Partial<ProxyGenerateRequest>;
+  try {
+    parsed = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'invalid-input', 'The request body is not valid JSON.');
+  }
+  const { step, prompt, images } = parsed ?? {};
+  if (step !== 'describe' && step !== 'composite') {
+    throw new HttpError(400, 'invalid-input', `Unknown step "${step}".`);
+  }
+  if (typeof prompt !== 'string' || !prompt.trim()) {
+    throw new HttpError(400, 'invalid-input', 'The prompt is missing.');
+  }
+  if (prompt.length > maxPromptLength) {
+    throw new HttpError(413, 'invalid-input', `The prompt is longer than ${maxPromptLength} characters.`);
+  }
+  const { min, max } = IMAGE_COUNTS[step];
+  if (!Array.isArray(images) || images.length < min || images.length > max || !images.every(isImage)) {
+    throw new HttpError(400, 'invalid-input', `The ${step} step takes ${min === max ? min : `${min} to ${max}`} PNG, JPEG or WebP images.`);
+  }
+  return { step, prompt, images };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: ProxyGenerateResponse | ProxyErrorResponse, headers: Record<string, string> = {}): number => {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(payload);
+  return Buffer.byteLength(payload);
+};
+
+/**
+ * The generation server: one POST endpoint that runs a pipeline step against
+ * Gemini with the server's key, after checking the client's rate limit and the
+ * request's size and shape.
+ */
+export const createGenerationServer = (config: ServerConfig, upstream: GeminiUpstream): Server => {
+  const rateLimiter = createRateLimiter(config.rateLimit);
+
+  const handleGenerate = async (req: IncomingMessage, res: ServerResponse, record: UsageRecord): Promise<ProxyGenerateResponse> => {
+    const retryAfterMs = rateLimiter.take(record.client);
+    if (retryAfterMs > 0) {
+      const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      throw new HttpError(429, 'quota-exceeded', `Too many requests; try again in ${retryAfterSeconds} seconds.`);
+    }
+
+    const body = await readBody(req, config.maxRequestBytes);
+    record.requestBytes = body.length;
+    const { step, prompt, images } = parseGenerateRequest(body, config.maxPromptLength);
+    record.step = step;
+    record.model = PROXY_MODELS[step];
+
+    // Stop the upstream call when the browser gives up (cancel or timeout).
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    if (step === 'describe') {
+      const { result, totalTokens } = await upstream.describe(prompt, images[0], controller.signal);
+      record.totalTokens = totalTokens;
+      return { step, text: result };
+    }
+    const { result, totalTokens } = await upstream.composite(prompt, images, controller.signal);
+    record.totalTokens = totalTokens;
+    return { step, image: result };
+  };
+
+  return createServer(async (req, res) => {
+    const startedAt = Date.now();
+    const record: UsageRecord = {
+      time: new Date(startedAt).toISOString(),
+      client: getClientId(req, config.trustProxy),
+      step: null,
+      model: null,
+      status: 0,
+      durationMs: 0,
+      requestBytes: 0,
+      responseBytes: 0,
+      totalTokens: null,
+    };
+
+    try {
+      if (req.url !== GENERATE_PATH) {
+        throw new HttpError(404, 'invalid-input', `No endpoint at ${req.url}.`);
+      }
+      if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        throw new HttpError(405, 'invalid-input', `${GENERATE_PATH} only accepts POST.`);
+      }
+      const response = await handleGenerate(req, res, record);
+      record.status = 200;
+      record.responseBytes = sendJson(res, 200, response);
+    } catch (err) {
+      // Pass Gemini's own status through so the client retries and classifies it as it would the SDK's errors.
+      const error = err instanceof HttpError ? err : toGenerationError(err);
+      const status = err instanceof HttpError
+        ? err.status
+        : getErrorStatus(err) ?? (error.kind === 'safety-blocked' ? 422 : 502);
+      record.status = status;
+      record.error = error.message;
+      if (!res.headersSent && !res.destroyed) {
+        // After a body rejected part-way, close the connection rather than read the rest.
+        const headers: Record<string, string> = status === 413 ? { Connection: 'close' } : {};
+        record.responseBytes = sendJson(res, status, { error: { kind: error.kind, message: error.message } }, headers);
+      }
+      if (!(err instanceof HttpError)) console.error(err);
+    } finally {
+      record.durationMs = Date.now() - startedAt;
+      logUsage(record);
+    }
+  });
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ServerConfig {
+  apiKey: string;
+  port: number;
+  /** Replaces the Gemini API origin, e.g. to point the server at the fake upstream. */
+  upstreamUrl?: string;
+  /** Requests each client may make per window. */
+  rateLimit: { requests: number; windowMs: number };
+  /** Largest request body accepted, in bytes. Images arrive base64-encoded. */
+  maxRequestBytes: number;
+  maxPromptLength: number;
+  /** Identify clients by X-Forwarded-For; only safe behind a proxy that sets it. */
+  trustProxy: boolean;
+}
+
+const readNumber = (env: NodeJS.ProcessEnv, name: string, fallback: number): number => {
+  const raw = env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number, got "${raw}".`);
+  }
+  return value;
+};
+
+/** Reads the server settings from the environment; see "Generation server" in the README. */
+export const loadServerConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const apiKey = env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  }
+  return {
+    apiKey,
+    port: readNumber(env, 'API_PORT', 8787),
+    upstreamUrl: env.GEMINI_BASE_URL || undefined,
+    rateLimit: {
+      requests: readNumber(env, 'RATE_LIMIT_REQUESTS', 30),
+      windowMs: readNumber(env, 'RATE_LIMIT_WINDOW_SECONDS', 60) * 1000,
+    },
+    maxRequestBytes: readNumber(env, 'MAX_REQUEST_MB', 15) * 1024 * 1024,
+    maxPromptLength: readNumber(env, 'MAX_PROMPT_LENGTH', 20000),
+    trustProxy: env.TRUST_PROXY === 'true',
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A stand-in for the Gemini API, for running the generation server without a
+// key or quota (`npm run fake-upstream`, then start the server with
+// GEMINI_BASE_URL pointing here), and for `npm run test:server`. A request with
+// one image gets a fixed description; a request with several gets the second
+// one, the scene, back.
+//
+// FAKE_UPSTREAM_FAILURE makes every request fail: a status code such as 429 or
+// 503 answers with that error, and "blocked" reports a safety block.
+
+import { createServer, Server } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+interface FakePart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+}
+
+export interface FakeUpstreamOptions {
+  /** A status code to fail every request with, or "blocked" for a safety block. */
+  failure?: string;
+  delayMs?: number;
+}
+
+/** The description the fake returns for every describe request. */
+export const FAKE_DESCRIPTION = 'The door belongs on the marked spot, in the plain wall facing the camera.';
+
+const GENERATE_CONTENT_PATH = /^\/[^/]+\/models\/([^/:]+):generateContent/;
+
+export const createFakeUpstream = ({ failure, delayMs = 0 }: FakeUpstreamOptions = {}): Server => createServer(async (req, res) => {
+  const match = req.method === 'POST' && req.url?.match(GENERATE_CONTENT_PATH);
+  const send = (status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+  if (!match) {
+    send(404, { error: { code: 404, message: `Not found: ${req.method} ${req.url}`, status: 'NOT_FOUND' } });
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  const parts: FakePart[] = body.contents?.flatMap((content: { parts?: FakePart[] }) => content.parts ?? []) ?? [];
+  const images = parts.filter(part => part.inlineData);
+  console.log(`${match[1]}: ${images.length} image(s), ${parts.length - images.length} text part(s)`);
+
+  if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+
+  const usageMetadata = { totalTokenCount: 1000 * images.length };
+  if (failure === 'blocked') {
+    send(200, { promptFeedback: { blockReason: 'SAFETY' }, usageMetadata });
+  } else if (failure) {
+    const status = Number(failure);
+    send(status, { error: { code: status, message: `Fake upstream failure (${status}).`, status: 'FAKE_FAILURE' } });
+  } else if (images.length > 1) {
+    send(200, { candidates: [{ content: { role: 'model', parts: [{ inlineData: images[1].inlineData }] }, finishReason: 'STOP' }], usageMetadata });
+  } else {
+    send(200, { candidates: [{ content: { role: 'model', parts: [{ text: FAKE_DESCRIPTION }] }, finishReason: 'STOP' }], usageMetadata });
+  }
+});
+
+// Run directly (`npm run fake-upstream`) rather than imported by the server check.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.FAKE_UPSTREAM_PORT || 8788);
+  const failure = process.env.FAKE_UPSTREAM_FAILURE;
+  const delayMs = Number(process.env.FAKE_UPSTREAM_DELAY_MS || 0);
+  createFakeUpstream({ failure, delayMs }).listen(port, () => {
+    console.log(`Fake Gemini upstream listening on http://localhost:${port}${failure ? ` (failing with ${failure})` : ''}`);
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse } from '@google/genai';
+import { GenerationError } from '../services/generationErrors';
+import { GeneratedImage } from '../services/providers/types';
+import { PROXY_MODELS } from '../services/providers/proxyProtocol';
+
+/** A step's result and the tokens it used, as reported by the API. */
+export interface UpstreamResult<T> {
+  result: T;
+  totalTokens: number | null;
+}
+
+/** The two Gemini calls behind the generation endpoint. */
+export interface GeminiUpstream {
+  describe(prompt: string, markedScene: GeneratedImage, signal: AbortSignal): Promise<UpstreamResult<string>>;
+  /** `images` are the product, the scene and an optional mask, in the order the prompt refers to them. */
+  composite(prompt: string, images: GeneratedImage[], signal: AbortSignal): Promise<UpstreamResult<GeneratedImage | null>>;
+}
+
+// Finish reasons that mean the response was withheld by a safety or content filter.
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
+// Returns the reason a response was blocked, or null if it was not.
+const getBlockReason = (response: GenerateContentResponse): string | null => {
+  const promptBlockReason = response.promptFeedback?.blockReason;
+  if (promptBlockReason) return promptBlockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return finishReason && BLOCKED_FINISH_REASONS.has(finishReason) ? finishReason : null;
+};
+
+const toPart = ({ mimeType, data }: GeneratedImage) => ({ inlineData: { mimeType, data } });
+
+/** @param baseUrl Replaces the API origin, e.g. with the fake upstream's. */
+export const createGeminiUpstream = (apiKey: string, baseUrl?: string): GeminiUpstream => {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+
+  return {
+    async describe(prompt, markedScene, signal) {
+      const response = await ai.models.generateContent({
+        model: PROXY_MODELS.describe,
+        contents: { parts: [{ text: prompt }, toPart(markedScene)] },
+        config: { abortSignal: signal },
+      });
+      const blockReason = getBlockReason(response);
+      if (blockReason) {
+        throw new GenerationError('safety-blocked', `The model declined to describe the scene (${blockReason}).`);
+      }
+      return { result: response.text ?? '', totalTokens: response.usageMetadata?.totalTokenCount ?? null };
+    },
+
+    async composite(prompt, images, signal) {
+      const response = await ai.models.generateContent({
+        model: PROXY_MODELS.composite,
+        contents: { parts: [...images.map(toPart), { text: prompt }] },
+        config: { abortSignal: signal },
+      });
+      const totalTokens = response.usageMetadata?.totalTokenCount ?? null;
+
+      const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+      if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        return { result: { mimeType, data }, totalTokens };
+      }
+
+      const blockReason = getBlockReason(response);
+      if (blockReason) {
+        throw new GenerationError('safety-blocked', `The model declined the request (${blockReason}).`);
+      }
+      console.error('Model response did not contain an image part.');
+      return { result: null, totalTokens };
+    },
+  };
+};
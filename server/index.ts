@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Entry point for `npm run server`. Settings that are not in the environment
+// are read from .env.local, the same file Vite uses.
+
+import { loadServerConfig } from './config';
+import { createGenerationServer } from './app';
+import { createGeminiUpstream } from './gemini';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // The file is optional; everything can come from the environment.
+}
+
+const config = loadServerConfig();
+const server = createGenerationServer(config, createGeminiUpstream(config.apiKey, config.upstreamUrl));
+
+server.listen(config.port, () => {
+  const upstream = config.upstreamUrl ? ` (upstream ${config.upstreamUrl})` : '';
+  console.log(`Generation server listening on http://localhost:${config.port}${upstream}`);
+});
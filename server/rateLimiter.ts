@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimiter {
+  /** Counts a request. Returns 0 when it is allowed, otherwise the milliseconds until the client may retry. */
+  take(clientId: string): number;
+}
+
+// Past this many tracked clients, expired windows are dropped on the next request.
+const PRUNE_THRESHOLD = 1000;
+
+/** A fixed-window limit of `requests` per `windowMs` for each client. */
+export const createRateLimiter = (
+  { requests, windowMs }: { requests: number; windowMs: number },
+  now: () => number = Date.now
+): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    take(clientId) {
+      const time = now();
+      if (windows.size > PRUNE_THRESHOLD) {
+        windows.forEach((window, id) => {
+          if (time - window.start >= windowMs) windows.delete(id);
+        });
+      }
+      let window = windows.get(clientId);
+      if (!window || time - window.start >= windowMs) {
+        window = { start: time, count: 0 };
+        windows.set(clientId, window);
+      }
+      if (window.count >= requests) {
+        return window.start + windowMs - time;
+      }
+      window.count++;
+      return 0;
+    },
+  };
+};
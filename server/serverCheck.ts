@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// `npm run test:server`: runs the generation server against the fake upstream
+// and checks each response, including the validation, rate-limit and upstream
+// error paths. Both servers listen on free ports, so nothing else needs to run.
+
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { GENERATE_PATH, ProxyGenerateRequest } from '../services/providers/proxyProtocol';
+import { createGenerationServer } from './app';
+import { ServerConfig } from './config';
+import { createFakeUpstream, FAKE_DESCRIPTION, FakeUpstreamOptions } from './fakeUpstream';
+import { createGeminiUpstream } from './gemini';
+
+const CONFIG: ServerConfig = {
+  apiKey: 'test-key',
+  port: 0,
+  rateLimit: { requests: 100, windowMs: 60_000 },
+  maxRequestBytes: 64 * 1024,
+  maxPromptLength: 1000,
+  trustProxy: false,
+};
+
+// A 1×1 PNG; the fake never decodes it.
+const PIXEL = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+const image = (data = PIXEL) => ({ mimeType: 'image/png', data });
+
+const DESCRIBE: ProxyGenerateRequest = { step: 'describe', prompt: 'Describe the marked spot.', images: [image()] };
+const COMPOSITE: ProxyGenerateRequest = { step: 'composite', prompt: 'Place the door.', images: [image(), image(`${PIXEL}scene`)] };
+
+const listen = (server: Server): Promise<string> => new Promise(resolve => {
+  server.listen(0, () => resolve(`http://localhost:${(server.address() as AddressInfo).port}`));
+});
+
+const close = (server: Server): Promise<void> => new Promise(resolve => {
+  server.closeAllConnections();
+  server.close(() => resolve());
+});
+
+interface CheckContext {
+  /** POSTs a body to the generation endpoint; an object is sent as JSON. */
+  post: (body: unknown, path?: string) => Promise<Response>;
+  get: (path: string) => Promise<Response>;
+}
+
+/** Starts a fake upstream and a generation server in front of it, runs the check, and stops both. */
+const withServers = async (
+  options: { upstream?: FakeUpstreamOptions; config?: Partial<ServerConfig> },
+  check: (context: CheckContext) => Promise<void>
+) => {
+  const upstream = createFakeUpstream(options.upstream);
+  const upstreamUrl = await listen(upstream);
+  const config = { ...CONFIG, ...options.config, upstreamUrl };
+  const server = createGenerationServer(config, createGeminiUpstream(config.apiKey, upstreamUrl));
+  const serverUrl = await listen(server);
+  try {
+    await check({
+      post: (body, path = GENERATE_PATH) => fetch(`${serverUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+      }),
+      get: path => fetch(`${serverUrl}${path}`),
+    });
+  } finally {
+    await close(server);
+    await close(upstream);
+  }
+};
+
+const expectError = async (response: Response, status: number, kind: string) => {
+  const body = await response.json();
+  assert.equal(response.status, status, `expected ${status}, got ${response.status}: ${JSON.stringify(body)}`);
+  assert.equal(body.error?.kind, kind);
+  assert.equal(typeof body.error.message, 'string');
+};
+
+const CHECKS: { name: string; run: () => Promise<void> }[] = [
+  {
+    name: 'describe returns the upstream text',
+    run: () => withServers({}, async ({ post }) => {
+      const response = await post(DESCRIBE);
+      assert.equal(response.status, 200);
+      assert.deepEqual(await response.json(), { step: 'describe', text: FAKE_DESCRIPTION });
+    }),
+  },
+  {
+    name: 'composite returns the upstream image',
+    run: () => withServers({}, async ({ post }) => {
+      const response = await post(COMPOSITE);
+      assert.equal(response.status, 200);
+      assert.deepEqual(await response.json(), { step: 'composite', image: COMPOSITE.images[1] });
+    }),
+  },
+  {
+    name: 'malformed requests get a 400',
+    run: () => withServers({}, async ({ post }) => {
+      await expectError(await post('{not json'), 400, 'invalid-input');
+      await expectError(await post({ ...DESCRIBE, step: 'upscale' }), 400, 'invalid-input');
+      await expectError(await post({ ...DESCRIBE, prompt: ' ' }), 400, 'invalid-input');
+      await expectError(await post({ ...DESCRIBE, images: [] }), 400, 'invalid-input');
+      await expectError(await post({ ...DESCRIBE, images: [{ mimeType: 'image/gif', data: PIXEL }] }), 400, 'invalid-input');
+    }),
+  },
+  {
+    name: 'oversized bodies and prompts get a 413',
+    run: () => withServers({}, async ({ post }) => {
+      await expectError(await post({ ...DESCRIBE, images: [image('A'.repeat(CONFIG.maxRequestBytes))] }), 413, 'invalid-input');
+      await expectError(await post({ ...DESCRIBE, prompt: 'x'.repeat(CONFIG.maxPromptLength + 1) }), 413, 'invalid-input');
+    }),
+  },
+  {
+    name: 'unknown paths get a 404 and other methods a 405',
+    run: () => withServers({}, async ({ post, get }) => {
+      await expectError(await post(DESCRIBE, '/api/other'), 404, 'invalid-input');
+      const response = await get(GENERATE_PATH);
+      assert.equal(response.headers.get('Allow'), 'POST');
+      await expectError(response, 405, 'invalid-input');
+    }),
+  },
+  {
+    name: 'clients over the rate limit get a 429 with Retry-After',
+    run: () => withServers({ config: { rateLimit: { requests: 2, windowMs: 60_000 } } }, async ({ post }) => {
+      assert.equal((await post(DESCRIBE)).status, 200);
+      assert.equal((await post(DESCRIBE)).status, 200);
+      const response = await post(DESCRIBE);
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      assert.ok(retryAfter > 0 && retryAfter <= 60, `Retry-After was ${response.headers.get('Retry-After')}`);
+      await expectError(response, 429, 'quota-exceeded');
+    }),
+  },
+  {
+    name: 'an upstream rate limit passes through as a 429',
+    run: () => withServers({ upstream: { failure: '429' } }, async ({ post }) => {
+      await expectError(await post(DESCRIBE), 429, 'quota-exceeded');
+    }),
+  },
+  {
+    name: 'an unavailable upstream passes through as a 503',
+    run: () => withServers({ upstream: { failure: '503' } }, async ({ post }) => {
+      const response = await post(COMPOSITE);
+      assert.equal(response.status, 503);
+    }),
+  },
+  {
+    name: 'a safety block gets a 422',
+    run: () => withServers({ upstream: { failure: 'blocked' } }, async ({ post }) => {
+      await expectError(await post(COMPOSITE), 422, 'safety-blocked');
+    }),
+  },
+];
+
+let failures = 0;
+for (const { name, run } of CHECKS) {
+  try {
+    await run();
+    console.log(`ok - ${name}`);
+  } catch (err) {
+    failures++;
+    console.error(`not ok - ${name}`);
+    console.error(err);
+  }
+}
+console.log(`${CHECKS.length - failures} of ${CHECKS.length} checks passed.`);
+process.exitCode = failures > 0 ? 1 : 0;
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Cuts a door out of a product photo. The background is found by growing regions
+// inward from the photo's border over smooth colour changes; the largest remaining
+// blob is taken as the door. This runs in the browser without a model and works
+// best on photos where the door stands out from its surroundings; the cutout editor
+// lets the user fix what it gets wrong.
+
+/** A single-channel mask (0 = background, 255 = door) at the working resolution. */
+export interface ForegroundMask {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** Longest side the detection runs at; the final cutout is still made at full resolution. */
+export const CUTOUT_WORKING_DIMENSION = 768;
+
+/** Default colour step (0-255 per channel) the background may change by between neighbours. */
+export const DEFAULT_CUTOUT_TOLERANCE = 18;
+
+// Below this share of the photo, a detected door is treated as a failed detection.
+const MIN_FOREGROUND_FRACTION = 0.02;
+
+/** Draws an image at the working resolution and returns its pixels. */
+export const getWorkingImageData = (image: HTMLImageElement): ImageData => {
+  const scale = Math.min(1, CUTOUT_WORKING_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not get canvas context for background removal.');
+  }
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+const colorDistance = (data: Uint8ClampedArray, a: number, b: number) => Math.max(
+  Math.abs(data[a * 4] - data[b * 4]),
+  Math.abs(data[a * 4 + 1] - data[b * 4 + 1]),
+  Math.abs(data[a * 4 + 2] - data[b * 4 + 2])
+);
+
+// Keeps only the largest 4-connected blob of foreground pixels.
+const keepLargestComponent = (mask: Uint8ClampedArray, width: number, height: number) => {
+  const labels = new Int32Array(width * height);
+  const stack: number[] = [];
+  let bestLabel = 0;
+  let bestSize = 0;
+  let label = 0;
+  for (let start = 0; start < mask.length; start++) {
+    if (mask[start] === 0 || labels[start] !== 0) continue;
+    label++;
+    let size = 0;
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      size++;
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width,
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour < 0 || neighbour >= mask.length || mask[neighbour] === 0 || labels[neighbour] !== 0) continue;
+        labels[neighbour] = label;
+        stack.push(neighbour);
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+  }
+  if (bestLabel === 0) return;
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = labels[i] === bestLabel ? 255 : 0;
+  }
+};
+
+/**
+ * Detects the door in a photo. Returns a mask where everything reachable from
+ * the border through colour steps smaller than `tolerance` is background. If
+ * nothing sensible is left, the whole photo is kept.
+ */
+export const detectForegroundMask = (imageData: ImageData, tolerance = DEFAULT_CUTOUT_TOLERANCE): ForegroundMask => {
+  const { width, height, data } = imageData;
+  const total = width * height;
+  const isBackground = new Uint8Array(total);
+  const queue = new Int32Array(total);
+  let head = 0;
+  let tail = 0;
+
+  const seed = (index: number) => {
+    if (isBackground[index]) return;
+    isBackground[index] = 1;
+    queue[tail++] = index;
+  };
+  for (let x = 0; x < width; x++) {
+    seed(x);
+    seed((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    seed(y * width);
+    seed(y * width + width - 1);
+  }
+
+  while (head < tail) {
+    const index = queue[head++];
+    const x = index % width;
+    const neighbours = [
+      x > 0 ? index - 1 : -1,
+      x < width - 1 ? index + 1 : -1,
+      index - width,
+      index + width,
+    ];
+    for (const neighbour of neighbours) {
+      if (neighbour < 0 || neighbour >= total || isBackground[neighbour]) continue;
+      // Transparent pixels are background whatever their colour.
+      if (data[neighbour * 4 + 3] < 16 || colorDistance(data, index, neighbour) <= tolerance) {
+        isBackground[neighbour] = 1;
+        queue[tail++] = neighbour;
+      }
+    }
+  }
+
+  const mask = new Uint8ClampedArray(total);
+  for (let i = 0; i < total; i++) {
+    mask[i] = isBackground[i] ? 0 : 255;
+  }
+  keepLargestComponent(mask, width, height);
+
+  const foreground = mask.reduce((count, value) => count + (value > 0 ? 1 : 0), 0);
+  if (foreground < total * MIN_FOREGROUND_FRACTION) {
+    mask.fill(255);
+  }
+  return { data: mask, width, height };
+};
+
+/** Paints a round dab onto the mask: 255 to keep pixels, 0 to remove them. */
+export const paintMask = (mask: ForegroundMask, x: number, y: number, radius: number, value: 0 | 255) => {
+  const { width, height, data } = mask;
+  const radiusSquared = radius * radius;
+  for (let py = Math.max(0, Math.floor(y - radius)); py <= Math.min(height - 1, Math.ceil(y + radius)); py++) {
+    for (let px = Math.max(0, Math.floor(x - radius)); px <= Math.min(width - 1, Math.ceil(x + radius)); px++) {
+      if ((px - x) ** 2 + (py - y) ** 2 <= radiusSquared) {
+        data[py * width + px] = value;
+      }
+    }
+  }
+};
+
+/** Bounding box of the kept pixels, in mask pixels, or null if nothing is kept. */
+export const getForegroundBounds = (mask: ForegroundMask) => {
+  const { width, height, data } = mask;
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] > 0) {
+        if (x < left) left = x;
+        if (x > right) right = x;
+        if (y < top) top = y;
+        if (y > bottom) bottom = y;
+      }
+    }
+  }
+  return right < 0 ? null : { left, top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+/** Thrown when nothing of the photo is left to keep. */
+export class EmptyCutoutError extends Error {
+  constructor() {
+    super('The cutout is empty. Paint over the door to keep it.');
+    this.name = 'EmptyCutoutError';
+  }
+}
+
+/**
+ * Applies the mask to the full-resolution photo, making the background
+ * transparent, and trims the result to the door's bounding box.
+ * @returns A PNG file named after the original.
+ * @throws EmptyCutoutError when the mask keeps nothing.
+ */
+export const createCutoutFile = async (image: HTMLImageElement, mask: ForegroundMask, fileName: string): Promise<File> => {
+  const bounds = getForegroundBounds(mask);
+  if (!bounds) {
+    throw new EmptyCutoutError();
+  }
+  const fullWidth = image.naturalWidth;
+  const fullHeight = image.naturalHeight;
+  const scaleX = fullWidth / mask.width;
+  const scaleY = fullHeight / mask.height;
+
+  // The mask as an alpha-only canvas, scaled up with smoothing for a soft edge.
+  const maskCanvas = document.createElement('canvas');
+  maskCanvas.width = mask.width;
+  maskCanvas.height = mask.height;
+  const maskCtx = maskCanvas.getContext('2d');
+  const canvas = document.createElement('canvas');
+  const left = Math.floor(bounds.left * scaleX);
+  const top = Math.floor(bounds.top * scaleY);
+  canvas.width = Math.min(fullWidth - left, Math.ceil(bounds.width * scaleX));
+  canvas.height = Math.min(fullHeight - top, Math.ceil(bounds.height * scaleY));
+  const ctx = canvas.getContext('2d');
+  if (!maskCtx || !ctx) {
+    throw new Error('Could not get canvas context for the cutout.');
+  }
+  const maskImage = new ImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) maskImage.data[i * 4 + 3] = mask.data[i];
+  maskCtx.putImageData(maskImage, 0, 0);
+
+  ctx.drawImage(image, -left, -top);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(maskCanvas, -left, -top, fullWidth, fullHeight);
+
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(new File([blob], `${baseName}-cutout.png`, { type: 'image/png', lastModified: Date.now() }));
+      } else {
+        reject(new Error('Canvas to Blob conversion failed for the cutout.'));
+      }
+    }, 'image/png');
+  });
+};
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Door, DoorOpeningType, DoorUsage } from '../types';
+
+// The catalog is served as a static file (public/catalog/doors.json), so a new
+// product list can be deployed without rebuilding the app.
+export const CATALOG_URL = '/catalog/doors.json';
+
+// Bump when the manifest format changes in a way older parsers cannot read.
+export const SUPPORTED_CATALOG_SCHEMA_VERSION = 1;
+
+const OPENING_TYPES: DoorOpeningType[] = ['single-swing', 'double-swing', 'sliding', 'pivot', 'folding'];
+const USAGES: DoorUsage[] = ['interior', 'exterior'];
+
+/** Why an entry, or one of its images, was left out of the catalog; the interface words it from the kind. */
+export type CatalogWarning =
+  | { kind: 'invalid-entry'; entry: number; name?: string; problems: string[] }
+  | { kind: 'duplicate-id'; entry: number; name?: string; id: number }
+  | { kind: 'image-missing'; door: string; url: string }
+  | { kind: 'finish-image-missing'; door: string; finish: string; url: string };
+
+export interface DoorCatalog {
+  doors: Door[];
+  /** A reason for every entry that was skipped and every finish image that was dropped. */
+  warnings: CatalogWarning[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const validateVariants = (variants: unknown): string[] => {
+  if (!Array.isArray(variants)) return ['"variants" must be a list'];
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  variants.forEach((variant, index) => {
+    const label = `"variants[${index}]"`;
+    if (!isRecord(variant)) {
+      problems.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof variant.id !== 'string' || !variant.id.trim()) problems.push(`${label}.id must be a non-empty string`);
+    else if (ids.has(variant.id)) problems.push(`${label}.id "${variant.id}" is used twice`);
+    else ids.add(variant.id);
+    if (typeof variant.name !== 'string' || !variant.name.trim()) problems.push(`${label}.name must be a non-empty string`);
+    if (typeof variant.swatch !== 'string' || !CSS.supports('color', variant.swatch)) problems.push(`${label}.swatch must be a CSS colour`);
+    if (variant.imageUrl !== undefined && typeof variant.imageUrl !== 'string') problems.push(`${label}.imageUrl must be a string`);
+  });
+  return problems;
+};
+
+// Returns the problems found in a single manifest entry; an empty list means it is usable.
+const validateDoorEntry = (entry: unknown): string[] => {
+  if (!isRecord(entry)) return ['entry is not an object'];
+  const problems: string[] = [];
+
+  if (typeof entry.id !== 'number' || !Number.isInteger(entry.id)) problems.push('"id" must be an integer');
+  if (typeof entry.name !== 'string' || !entry.name.trim()) problems.push('"name" must be a non-empty string');
+  if (typeof entry.imageUrl !== 'string' || !entry.imageUrl.trim()) problems.push('"imageUrl" must be a non-empty string');
+
+  if (entry.sku !== undefined && typeof entry.sku !== 'string') problems.push('"sku" must be a string');
+  if (entry.material !== undefined && typeof entry.material !== 'string') problems.push('"material" must be a string');
+  if (entry.color !== undefined && typeof entry.color !== 'string') problems.push('"color" must be a string');
+  if (entry.usage !== undefined && !USAGES.includes(entry.usage as DoorUsage)) {
+    problems.push(`"usage" must be one of ${USAGES.join(', ')}`);
+  }
+  if (entry.finishes !== undefined && !isStringArray(entry.finishes)) problems.push('"finishes" must be a list of strings');
+  if (entry.categories !== undefined && !isStringArray(entry.categories)) problems.push('"categories" must be a list of strings');
+  if (entry.variants !== undefined) problems.push(...validateVariants(entry.variants));
+  if (entry.openingType !== undefined && !OPENING_TYPES.includes(entry.openingType as DoorOpeningType)) {
+    problems.push(`"openingType" must be one of ${OPENING_TYPES.join(', ')}`);
+  }
+  if (entry.dimensions !== undefined) {
+    const dimensions = entry.dimensions;
+    if (!isRecord(dimensions) || !isPositiveNumber(dimensions.width) || !isPositiveNumber(dimensions.height) || !isPositiveNumber(dimensions.thickness)) {
+      problems.push('"dimensions" must have positive width, height and thickness');
+    }
+  }
+  if (entry.price !== undefined) {
+    const price = entry.price;
+    if (!isRecord(price) || typeof price.min !== 'number' || typeof price.max !== 'number' || price.min < 0 || price.min > price.max) {
+      problems.push('"price" must have 0 <= min <= max');
+    } else if (typeof price.currency !== 'string' || !/^[A-Z]{3}$/.test(price.currency)) {
+      problems.push('"price.currency" must be a three-letter currency code');
+    }
+  }
+  return problems;
+};
+
+const getEntryName = (entry: unknown): string | undefined =>
+  isRecord(entry) && typeof entry.name === 'string' ? entry.name : undefined;
+
+/** The warning in English, for the console. */
+export const describeCatalogWarning = (warning: CatalogWarning): string => {
+  switch (warning.kind) {
+    case 'invalid-entry':
+    case 'duplicate-id': {
+      const label = `Catalog entry #${warning.entry}${warning.name ? ` "${warning.name}"` : ''}`;
+      return warning.kind === 'invalid-entry'
+        ? `${label} was skipped: ${warning.problems.join('; ')}.`
+        : `${label} was skipped: duplicate id ${warning.id}.`;
+    }
+    case 'image-missing':
+      return `"${warning.door}" was skipped: its image ${warning.url} could not be found.`;
+    case 'finish-image-missing':
+      return `"${warning.door}" in ${warning.finish}: its image ${warning.url} could not be found, so the finish will be rendered from the main image.`;
+  }
+};
+
+/**
+ * Validates a parsed manifest. Throws when the manifest as a whole is unusable
+ * (wrong shape or unsupported schema version); individual bad entries are
+ * skipped and reported in `warnings`.
+ */
+export const parseDoorCatalog = (manifest: unknown): DoorCatalog => {
+  if (!isRecord(manifest) || !Array.isArray(manifest.doors)) {
+    throw new Error('The door catalog is malformed: expected an object with a "doors" list.');
+  }
+  if (manifest.schemaVersion !== SUPPORTED_CATALOG_SCHEMA_VERSION) {
+    throw new Error(`Unsupported door catalog schema version ${String(manifest.schemaVersion)} (expected ${SUPPORTED_CATALOG_SCHEMA_VERSION}).`);
+  }
+
+  const doors: Door[] = [];
+  const warnings: CatalogWarning[] = [];
+  const seenIds = new Set<number>();
+
+  manifest.doors.forEach((entry, index) => {
+    const problems = validateDoorEntry(entry);
+    if (problems.length > 0) {
+      warnings.push({ kind: 'invalid-entry', entry: index + 1, name: getEntryName(entry), problems });
+      return;
+    }
+    const door = entry as unknown as Door;
+    if (seenIds.has(door.id)) {
+      warnings.push({ kind: 'duplicate-id', entry: index + 1, name: door.name, id: door.id });
+      return;
+    }
+    seenIds.add(door.id);
+    doors.push(door);
+  });
+
+  return { doors, warnings };
+};
+
+// Checks that the URL serves an image. The dev server answers unknown paths with
+// index.html, so a 200 status alone is not enough. Only a definite answer counts
+// as missing: a network error, a server that refuses HEAD or a response without
+// a content type leaves the image to `fetchDoorImageFile` when it is picked.
+const isImageAvailable = async (imageUrl: string): Promise<boolean> => {
+  let response: Response;
+  try {
+    response = await fetch(imageUrl, { method: 'HEAD' });
+  } catch (err) {
+    console.warn(`Could not check ${imageUrl}; keeping it:`, err);
+    return true;
+  }
+  if (response.status === 404 || response.status === 410) return false;
+  const contentType = response.headers.get('content-type');
+  return !response.ok || !contentType || contentType.startsWith('image/');
+};
+
+/**
+ * Fetches, validates and image-checks the door catalog manifest.
+ */
+export const loadDoorCatalog = async (url: string = CATALOG_URL): Promise<DoorCatalog> => {
+  const response = await fetch(url, { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new Error(`Failed to load the door catalog (HTTP ${response.status}).`);
+  }
+  let manifest: unknown;
+  try {
+    manifest = await response.json();
+  } catch {
+    throw new Error('The door catalog is not valid JSON.');
+  }
+
+  const { doors, warnings } = parseDoorCatalog(manifest);
+  const availability = await Promise.all(doors.map(door => isImageAvailable(door.imageUrl)));
+  const availableDoors = doors.filter((door, index) => {
+    if (!availability[index]) {
+      warnings.push({ kind: 'image-missing', door: door.name, url: door.imageUrl });
+    }
+    return availability[index];
+  });
+  // A finish whose photo is missing is still offered; it falls back to recolouring the main image.
+  await Promise.all(availableDoors.map(async door => {
+    if (!door.variants) return;
+    door.variants = await Promise.all(door.variants.map(async variant => {
+      if (!variant.imageUrl || await isImageAvailable(variant.imageUrl)) return variant;
+      warnings.push({ kind: 'finish-image-missing', door: door.name, finish: variant.name, url: variant.imageUrl });
+      const { imageUrl, ...rest } = variant;
+      return rest;
+    }));
+  }));
+
+  warnings.forEach(warning => console.warn(describeCatalogWarning(warning)));
+  return { doors: availableDoors, warnings };
+};
+
+/**
+ * A catalog door image that could not be downloaded. `isMissing` is set when
+ * the image is gone or is not an image, so trying again cannot help.
+ */
+export class DoorImageError extends Error {
+  readonly isMissing: boolean;
+
+  constructor(message: string, isMissing: boolean) {
+    super(message);
+    this.name = 'DoorImageError';
+    this.isMissing = isMissing;
+  }
+}
+
+/**
+ * Downloads a catalog door's image as a File for the generation pipeline.
+ * @throws DoorImageError when the server answers with an error or something other than an image.
+ */
+export const fetchDoorImageFile = async (door: Door): Promise<File> => {
+  const response = await fetch(door.imageUrl);
+  if (!response.ok) {
+    const isMissing = response.status === 404 || response.status === 410;
+    throw new DoorImageError(`Failed to load door image: ${door.name} (HTTP ${response.status}).`, isMissing);
+  }
+  const blob = await response.blob();
+  // A dev server or CDN may answer a missing file with an HTML page.
+  if (blob.type && !blob.type.startsWith('image/')) {
+    throw new DoorImageError(`The door image for ${door.name} is not an image (${blob.type}).`, true);
+  }
+  const fileName = door.imageUrl.split('/').pop() || 'door.jpg';
+  const fileType = blob.type || 'image/jpeg';
+  return new File([blob], fileName, { type: fileType });
+};
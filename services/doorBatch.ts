@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CacheLookup, Door, DoorConfiguration, ExpectedDoorSize, InpaintRegion, PlacementMode, PlacementQuad, PromptTemplateRefs, RelativePoint, ScenePlacement } from '../types';
+import { fetchDoorImageFile } from './catalogService';
+import { mapWithConcurrency } from './concurrency';
+import { describeDoorForPrompt } from './doorSpecs';
+import { generateCompositeImage } from './geminiService';
+import { GenerationError, toGenerationError } from './generationErrors';
+
+export type DoorBatchJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface DoorBatchJob {
+  door: Door;
+  status: DoorBatchJobStatus;
+  /** The scene version and placement the job was rendered with, kept so its result is saved as it was made. */
+  sceneVersionId: string;
+  placement: ScenePlacement;
+  doorConfiguration?: DoorConfiguration;
+  /** The composite, once done. */
+  resultImage?: Blob;
+  debugImageUrl?: string;
+  prompt?: string;
+  promptTemplates?: PromptTemplateRefs;
+  cacheLookups?: CacheLookup[];
+  /** Why the job failed; the interface words it from the kind. */
+  error?: GenerationError;
+}
+
+export interface DoorBatchRequest {
+  doors: Door[];
+  sceneImage: File;
+  /** Id of the scene version `sceneImage` belongs to; results are added on top of it. */
+  sceneVersionId: string;
+  point: RelativePoint;
+  quad?: PlacementQuad;
+  placementMode?: PlacementMode;
+  /** Applied to every door in the batch. */
+  doorConfiguration?: DoorConfiguration;
+  /** Restricts every render to this region (masked mode). */
+  inpaintRegion?: InpaintRegion;
+  /** Per-door expected size from the scene calibration, if any. */
+  getExpectedDoorSize?: (door: Door) => ExpectedDoorSize | undefined;
+  concurrency?: number;
+  signal: AbortSignal;
+  /** Called with a fresh copy of the job list whenever a job changes state. */
+  onUpdate: (jobs: DoorBatchJob[]) => void;
+}
+
+// Kept low: every job is a full describe + composite round trip.
+const DEFAULT_BATCH_CONCURRENCY = 2;
+
+/**
+ * Renders the same scene and placement with each door in turn. Aborting the
+ * signal cancels every job that has not started and stops the ones in flight.
+ */
+export const runDoorBatch = async ({
+  doors,
+  sceneImage,
+  sceneVersionId,
+  point,
+  quad,
+  placementMode,
+  doorConfiguration,
+  inpaintRegion,
+  getExpectedDoorSize,
+  concurrency = DEFAULT_BATCH_CONCURRENCY,
+  signal,
+  onUpdate,
+}: DoorBatchRequest): Promise<DoorBatchJob[]> => {
+  const placement: ScenePlacement = { point, quad, mode: placementMode, inpaintRegion };
+  const jobs: DoorBatchJob[] = doors.map(door => ({ door, status: 'queued', sceneVersionId, placement, doorConfiguration }));
+  const update = (index: number, changes: Partial<DoorBatchJob>) => {
+    jobs[index] = { ...jobs[index], ...changes };
+    onUpdate([...jobs]);
+  };
+  onUpdate([...jobs]);
+
+  await mapWithConcurrency(doors, concurrency, async (door, index) => {
+    if (signal.aborted) {
+      update(index, { status: 'cancelled' });
+      return;
+    }
+    update(index, { status: 'running' });
+    try {
+      const doorImageFile = await fetchDoorImageFile(door);
+      const { finalImage, debugImageUrl, finalPrompt, promptTemplates, cacheLookups } = await generateCompositeImage(
+        doorImageFile,
+        describeDoorForPrompt(door),
+        sceneImage,
+        sceneImage.name,
+        point,
+        { quad, placementMode, doorConfiguration, expectedDoorSize: getExpectedDoorSize?.(door), inpaintRegion, signal }
+      );
+      if (signal.aborted) {
+        update(index, { status: 'cancelled' });
+        return;
+      }
+      update(index, { status: 'done', resultImage: finalImage, debugImageUrl, prompt: finalPrompt, promptTemplates, cacheLookups });
+    } catch (err) {
+      console.error(`Batch job for "${door.name}" failed:`, err);
+      update(index, { status: signal.aborted ? 'cancelled' : 'failed', error: toGenerationError(err) });
+    }
+  });
+
+  return jobs;
+};
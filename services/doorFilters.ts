@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Door, DoorUsage } from '../types';
+
+export type DoorSortOrder = 'featured' | 'name' | 'price-asc' | 'price-desc';
+export type DoorViewMode = 'carousel' | 'grid';
+
+export interface PriceBand {
+  /** Also names the band's label in the message catalogs, as `priceBand.<id>`. */
+  id: 'budget' | 'mid' | 'premium' | 'luxury';
+  /** Inclusive lower bound on the door's minimum price. */
+  min: number;
+  /** Exclusive upper bound; omitted for the top band. */
+  max?: number;
+}
+
+/** The currency the bands are in; prices in any other currency match no band. */
+export const PRICE_BAND_CURRENCY = 'IRR';
+
+// Bands are compared against `price.min`, in `PRICE_BAND_CURRENCY`.
+export const PRICE_BANDS: PriceBand[] = [
+  { id: 'budget', min: 0, max: 25000000 },
+  { id: 'mid', min: 25000000, max: 50000000 },
+  { id: 'premium', min: 50000000, max: 100000000 },
+  { id: 'luxury', min: 100000000 },
+];
+
+export interface DoorFilterState {
+  query: string;
+  category: string;
+  material: string;
+  color: string;
+  priceBand: string;
+  usage: DoorUsage | '';
+  sort: DoorSortOrder;
+  view: DoorViewMode;
+}
+
+export const DEFAULT_DOOR_FILTERS: DoorFilterState = {
+  query: '',
+  category: '',
+  material: '',
+  color: '',
+  priceBand: '',
+  usage: '',
+  sort: 'featured',
+  view: 'carousel',
+};
+
+// Short query-string keys for each filter field.
+const SEARCH_PARAM_KEYS: Record<keyof DoorFilterState, string> = {
+  query: 'q',
+  category: 'category',
+  material: 'material',
+  color: 'color',
+  priceBand: 'price',
+  usage: 'usage',
+  sort: 'sort',
+  view: 'view',
+};
+
+const SORT_ORDERS: DoorSortOrder[] = ['featured', 'name', 'price-asc', 'price-desc'];
+const VIEW_MODES: DoorViewMode[] = ['carousel', 'grid'];
+const USAGES: DoorUsage[] = ['interior', 'exterior'];
+
+export const filtersFromSearchParams = (params: URLSearchParams): DoorFilterState => {
+  const get = (field: keyof DoorFilterState) => params.get(SEARCH_PARAM_KEYS[field]) ?? '';
+  const sort = get('sort') as DoorSortOrder;
+  const view = get('view') as DoorViewMode;
+  const usage = get('usage') as DoorUsage;
+  return {
+    query: get('query'),
+    category: get('category'),
+    material: get('material'),
+    color: get('color'),
+    priceBand: PRICE_BANDS.some(band => band.id === get('priceBand')) ? get('priceBand') : '',
+    usage: USAGES.includes(usage) ? usage : '',
+    sort: SORT_ORDERS.includes(sort) ? sort : DEFAULT_DOOR_FILTERS.sort,
+    view: VIEW_MODES.includes(view) ? view : DEFAULT_DOOR_FILTERS.view,
+  };
+};
+
+/**
+ * Writes the filters into `params`, leaving unrelated parameters alone and
+ * omitting fields that are at their default so shared URLs stay short.
+ */
+export const applyFiltersToSearchParams = (filters: DoorFilterState, params: URLSearchParams): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  (Object.keys(SEARCH_PARAM_KEYS) as (keyof DoorFilterState)[]).forEach(field => {
+    const value = filters[field];
+    if (value && value !== DEFAULT_DOOR_FILTERS[field]) {
+      next.set(SEARCH_PARAM_KEYS[field], value);
+    } else {
+      next.delete(SEARCH_PARAM_KEYS[field]);
+    }
+  });
+  return next;
+};
+
+export const hasActiveFilters = (filters: DoorFilterState): boolean =>
+  !!(filters.query || filters.category || filters.material || filters.color || filters.priceBand || filters.usage);
+
+const sortedUnique = (values: (string | undefined)[]): string[] =>
+  [...new Set(values.filter((value): value is string => !!value))].sort((a, b) => a.localeCompare(b));
+
+/** The distinct values present in the catalog for each facet. */
+export const getFacetOptions = (doors: Door[]) => ({
+  categories: sortedUnique(doors.flatMap(door => door.categories ?? [])),
+  materials: sortedUnique(doors.map(door => door.material)),
+  colors: sortedUnique(doors.map(door => door.color)),
+});
+
+const matchesQuery = (door: Door, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [door.name, door.sku, door.material, door.color, ...(door.finishes ?? []), ...(door.categories ?? [])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+// Only prices in the bands' currency can be placed in a band or compared with each other.
+const getComparablePrice = (door: Door): number | null =>
+  door.price?.currency === PRICE_BAND_CURRENCY ? door.price.min : null;
+
+const isInPriceBand = (door: Door, bandId: string): boolean => {
+  const band = PRICE_BANDS.find(b => b.id === bandId);
+  if (!band) return true;
+  const price = getComparablePrice(door);
+  if (price === null) return false;
+  return price >= band.min && (band.max === undefined || price < band.max);
+};
+
+export const filterAndSortDoors = (doors: Door[], filters: DoorFilterState): Door[] => {
+  const filtered = doors.filter(door =>
+    matchesQuery(door, filters.query)
+    && (!filters.category || (door.categories ?? []).includes(filters.category))
+    && (!filters.material || door.material === filters.material)
+    && (!filters.color || door.color === filters.color)
+    && (!filters.usage || door.usage === filters.usage)
+    && isInPriceBand(door, filters.priceBand)
+  );
+
+  // Doors without a price, or priced in another currency, sort last in both price orders.
+  const comparePrice = (a: Door, b: Door, direction: 1 | -1) => {
+    const priceA = getComparablePrice(a);
+    const priceB = getComparablePrice(b);
+    if (priceA === null || priceB === null) return (priceA === null ? 1 : 0) - (priceB === null ? 1 : 0);
+    return direction * (priceA - priceB);
+  };
+  switch (filters.sort) {
+    case 'name':
+      return [...filtered].sort((a, b) => a.name.localeCompare(b.name));
+    case 'price-asc':
+      return [...filtered].sort((a, b) => comparePrice(a, b, 1));
+    case 'price-desc':
+      return [...filtered].sort((a, b) => comparePrice(a, b, -1));
+    default:
+      return filtered;
+  }
+};
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Door, DoorFinishVariant } from '../types';
+import { detectForegroundMask, getWorkingImageData } from './backgroundRemoval';
+import { fetchDoorImageFile } from './catalogService';
+import { loadImage } from './imageUtils';
+
+export const findFinish = (door: Door | null, finishId: string | null): DoorFinishVariant | null =>
+  (finishId && door?.variants?.find(variant => variant.id === finishId)) || null;
+
+// Resolves any CSS colour to RGB by letting a canvas parse it.
+const parseCssColor = (color: string): [number, number, number] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context to read the finish colour.');
+  }
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, 1, 1);
+  const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+  return [r, g, b];
+};
+
+const luminance = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+/**
+ * Recolours the door in a product photo to a finish colour. Each pixel takes the
+ * finish colour plus its own deviation from the door's average brightness, so
+ * panels, grain and shading survive. The background, found the same way as in
+ * the cutout editor, is left as it is.
+ */
+export const recolorDoorImage = async (file: File, swatch: string): Promise<File> => {
+  const image = await loadImage(file);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not get canvas context to recolour the door.');
+  }
+  ctx.drawImage(image, 0, 0);
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+
+  // The mask is detected at the working resolution; look it up by scaled coordinates.
+  const mask = detectForegroundMask(getWorkingImageData(image));
+  const isDoor = (x: number, y: number) =>
+    mask.data[Math.min(mask.height - 1, Math.floor(y * mask.height / height)) * mask.width + Math.min(mask.width - 1, Math.floor(x * mask.width / width))] > 0;
+
+  let luminanceSum = 0;
+  let doorPixels = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isDoor(x, y)) continue;
+      const i = (y * width + x) * 4;
+      luminanceSum += luminance(data[i], data[i + 1], data[i + 2]);
+      doorPixels++;
+    }
+  }
+  if (doorPixels === 0) return file;
+  const averageLuminance = luminanceSum / doorPixels;
+
+  const [targetR, targetG, targetB] = parseCssColor(swatch);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isDoor(x, y)) continue;
+      const i = (y * width + x) * 4;
+      const detail = luminance(data[i], data[i + 1], data[i + 2]) - averageLuminance;
+      data[i] = targetR + detail;
+      data[i + 1] = targetG + detail;
+      data[i + 2] = targetB + detail;
+    }
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(result => result ? resolve(result) : reject(new Error('Canvas to Blob conversion failed.')), 'image/png');
+  });
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'door';
+  return new File([blob], `${baseName}-recoloured.png`, { type: 'image/png', lastModified: Date.now() });
+};
+
+/**
+ * Returns the image the pipeline should use for a catalog door in a finish: the
+ * finish's own photo, the main photo recoloured to its swatch, or the main photo
+ * as is when no finish is chosen.
+ */
+export const fetchFinishImageFile = async (door: Door, finish: DoorFinishVariant | null): Promise<File> => {
+  if (!finish) return fetchDoorImageFile(door);
+  if (finish.imageUrl) return fetchDoorImageFile({ ...door, imageUrl: finish.imageUrl });
+  return recolorDoorImage(await fetchDoorImageFile(door), finish.swatch);
+};
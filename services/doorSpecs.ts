@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  Door,
+  DoorConfiguration,
+  DoorFinishVariant,
+  DoorDimensions,
+  DoorOpeningType,
+  DoorOpenState,
+  HandleFinish,
+  HandleType,
+  PriceRange,
+  SidelightOption,
+} from '../types';
+import { Translate } from '../i18n';
+
+// Used by the prompt only; the details panel shows `door.openingType.<type>`.
+const openingTypeNames: Record<DoorOpeningType, string> = {
+  'single-swing': 'Single swing',
+  'double-swing': 'Double swing',
+  'sliding': 'Sliding',
+  'pivot': 'Pivot',
+  'folding': 'Folding',
+};
+
+// e.g. "90 × 210 cm, 4.5 cm thick"
+export const formatDimensions = ({ width, height, thickness }: DoorDimensions, t: Translate): string => {
+  const cm = (mm: number) => Number((mm / 10).toFixed(1));
+  return t('door.dimensions', { width: cm(width), height: cm(height), thickness: cm(thickness) });
+};
+
+/** @param intlLocale The Intl locale to write the amounts in, e.g. 'fa-IR' for Persian digits. */
+export const formatPriceRange = ({ min, max, currency }: PriceRange, intlLocale: string): string => {
+  const formatter = new Intl.NumberFormat(intlLocale, { style: 'currency', currency, maximumFractionDigits: 0 });
+  return min === max ? formatter.format(min) : `${formatter.format(min)} – ${formatter.format(max)}`;
+};
+
+/**
+ * Builds the plain-text product description given to the generation pipeline,
+ * so the model knows the real size and look of what it is placing.
+ * @param finish The finish chosen for the door, if any.
+ */
+export const describeDoorForPrompt = (door: Door, finish?: DoorFinishVariant | null): string => {
+  const lines = [`Name: ${door.name}`];
+  if (door.openingType) lines.push(`Type: ${openingTypeNames[door.openingType]} door`);
+  if (door.usage) lines.push(`Use: ${door.usage}`);
+  if (door.dimensions) {
+    const { width, height, thickness } = door.dimensions;
+    lines.push(`Size: ${width} mm wide, ${height} mm tall, ${thickness} mm thick`);
+  }
+  if (door.material) lines.push(`Material: ${door.material}`);
+  if (door.color) lines.push(`Colour: ${door.color}`);
+  if (door.finishes?.length) lines.push(`Available finishes: ${door.finishes.join(', ')}`);
+  if (finish) {
+    // Without a photo of the finish the image is only recoloured, so the model has to supply the texture.
+    lines.push(finish.imageUrl
+      ? `Finish: ${finish.name}`
+      : `Finish: ${finish.name} (base colour ${finish.swatch}). Render the door with the realistic colour and texture of this finish, even where the door image differs.`);
+  }
+  if (door.categories?.length) lines.push(`Categories: ${door.categories.join(', ')}`);
+  return lines.join('\n');
+};
+
+export const DEFAULT_DOOR_CONFIGURATION: DoorConfiguration = {
+  hingeSide: 'left',
+  swing: 'inward',
+  openState: 'closed',
+  handleType: 'lever',
+  handleFinish: 'brushed-steel',
+  sidelight: 'none',
+  transom: false,
+};
+
+// e.g. "Left hinge, opens inward, ajar · Lever handle in matte black · Sidelight left, transom"
+export const formatDoorConfiguration = (configuration: DoorConfiguration, t: Translate): string => {
+  const { hingeSide, swing, openState, handleType, handleFinish, sidelight, transom } = configuration;
+  const glazing = [
+    sidelight !== 'none' && t('config.summary.sidelight', { side: t(`config.sidelight.${sidelight}`).toLowerCase() }),
+    transom && t('config.summary.transom'),
+  ].filter(Boolean).join(t('app.listSeparator'));
+  return [
+    [t(`config.summary.hinge.${hingeSide}`), t(`config.summary.swing.${swing}`), t(`config.openState.${openState}`).toLowerCase()].join(t('app.listSeparator')),
+    t('config.summary.handle', { handle: t(`config.handleType.${handleType}`), finish: t(`config.handleFinish.${handleFinish}`).toLowerCase() }),
+    glazing,
+  ].filter(Boolean).join(' · ');
+};
+
+// English names for the prompt; the interface takes its labels from the message catalogs.
+const handleTypeNames: Record<HandleType, string> = {
+  'lever': 'Lever',
+  'knob': 'Knob',
+  'pull-bar': 'Pull bar',
+  'flush-pull': 'Flush pull',
+};
+
+const handleFinishNames: Record<HandleFinish, string> = {
+  'brushed-steel': 'Brushed steel',
+  'polished-chrome': 'Polished chrome',
+  'matte-black': 'Matte black',
+  'brass': 'Brass',
+  'bronze': 'Bronze',
+};
+
+const openStateInstructions: Record<DoorOpenState, string> = {
+  closed: 'closed, flush with its frame',
+  ajar: 'ajar, opened by about 15 degrees',
+  open: 'wide open, at about 80 degrees, showing the edge of the leaf',
+};
+
+const sidelightInstructions: Record<SidelightOption, string> = {
+  none: 'no sidelights',
+  left: 'a narrow glazed sidelight panel on the left of the door',
+  right: 'a narrow glazed sidelight panel on the right of the door',
+  both: 'narrow glazed sidelight panels on both sides of the door',
+};
+
+/**
+ * Builds the configuration lines of the composite prompt. Sides are as seen
+ * from the camera, which is how the configuration panel presents them.
+ */
+export const describeDoorConfigurationForPrompt = (configuration: DoorConfiguration): string => {
+  const { hingeSide, swing, openState, handleType, handleFinish, sidelight, transom } = configuration;
+  return [
+    `Hinges: on the ${hingeSide} side as seen from the camera, with the handle on the ${hingeSide === 'left' ? 'right' : 'left'}`,
+    `Swing: opens ${swing === 'inward' ? 'inward, away from the camera' : 'outward, towards the camera'}`,
+    `State: ${openStateInstructions[openState]}`,
+    `Handle: ${handleTypeNames[handleType].toLowerCase()} in ${handleFinishNames[handleFinish].toLowerCase()}, replacing any handle shown in the door image`,
+    `Sidelights: ${sidelightInstructions[sidelight]}`,
+    `Transom: ${transom ? 'a glazed transom window above the door, as wide as the door and any sidelights' : 'none'}`,
+  ].join('\n');
+};
@@ -4,7 +4,28 @@
 */
 
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { dataUrlToBlob, fileToDataUrl, getContentRect, loadImage } from './imageUtils';
+import { getImageProvider, ImageGenerationProvider } from './providers';
+import { CacheLookup, DoorConfiguration, ExpectedDoorSize, InpaintRegion, PlacementMode, PlacementQuad, PromptTemplateRefs, RelativePoint } from '../types';
+import { mapWithConcurrency } from './concurrency';
+import { blendIntoOriginal, mergeMaskedEdit, RelativeBox } from './highResComposite';
+import { drawInpaintRegion, expandBox, getInpaintRegionBounds, PixelBox } from './inpaintMask';
+import { isAbortError, RetryNotice, throwIfAborted, withRetry } from './retry';
+import { createStageRunner, GenerationProgressEvent } from './generationProgress';
+import { GenerationError, GenerationWarning, toGenerationError } from './generationErrors';
+import { renderPrompt } from './prompts';
+import { hashBlob, withCache } from './generationCache';
+
+// How many composite calls may run at once when several candidates are requested.
+const DEFAULT_CANDIDATE_CONCURRENCY = 2;
+
+// Time allowed for one attempt at each model step before it is retried.
+const DESCRIBE_TIMEOUT_MS = 45000;
+const COMPOSITE_TIMEOUT_MS = 120000;
+
+// In masked mode the model sees the region plus this much surrounding context
+// (as a fraction of the region's longer side on each edge).
+const INPAINT_CONTEXT_FRACTION = 0.5;
 
 // Helper to get intrinsic image dimensions from a File object
 const getImageDimensions = (file: File): Promise<{ width: number; height: number }> => {
@@ -37,20 +58,8 @@ const cropToOriginalAspectRatio = (
         const img = new Image();
         img.src = imageDataUrl;
         img.onload = () => {
-            // Re-calculate the dimensions of the content area within the padded square image
-            const aspectRatio = originalWidth / originalHeight;
-            let contentWidth, contentHeight;
-            if (aspectRatio > 1) { // Landscape
-                contentWidth = targetDimension;
-                contentHeight = targetDimension / aspectRatio;
-            } else { // Portrait or square
-                contentHeight = targetDimension;
-                contentWidth = targetDimension * aspectRatio;
-            }
-
-            // Calculate the top-left offset of the content area
-            const x = (targetDimension - contentWidth) / 2;
-            const y = (targetDimension - contentHeight) / 2;
+            // Re-calculate the content area and its top-left offset within the padded square image
+            const { x, y, width: contentWidth, height: contentHeight } = getContentRect(originalWidth, originalHeight, targetDimension);
 
             const canvas = document.createElement('canvas');
             // Set canvas to the final, un-padded dimensions
@@ -137,40 +146,31 @@ const resizeImage = (file: File, targetDimension: number): Promise<File> => {
     });
 };
 
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
-};
-
-// Helper to convert File to a data URL string
-const fileToDataUrl = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
+// Translates content-relative percentages into pixel coordinates on the padded square canvas.
+const toPaddedSquarePoint = (
+    position: RelativePoint,
+    originalDimensions: { originalWidth: number; originalHeight: number; },
+    targetDimension: number
+): { x: number; y: number } => {
+    const { x: offsetX, y: offsetY, width, height } = getContentRect(
+        originalDimensions.originalWidth,
+        originalDimensions.originalHeight,
+        targetDimension
+    );
+    // The final position is the content's offset plus the relative position inside the content
+    return {
+        x: offsetX + (position.xPercent / 100) * width,
+        y: offsetY + (position.yPercent / 100) * height,
+    };
 };
 
-// Helper to draw a marker on an image and return a new File object
+// Helper to draw a marker on an image and return a new File object.
+// With a quad, the outline of the opening is drawn instead of a single dot.
 const markImage = async (
     paddedSquareFile: File, 
-    position: { xPercent: number; yPercent: number; },
-    originalDimensions: { originalWidth: number; originalHeight: number; }
+    position: RelativePoint,
+    originalDimensions: { originalWidth: number; originalHeight: number; },
+    quad?: PlacementQuad
 ): Promise<File> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -198,39 +198,41 @@ const markImage = async (
                 // Recalculate the content area's dimensions and offset within the padded square canvas.
                 // This is crucial to translate the content-relative percentages to the padded canvas coordinates.
                 const { originalWidth, originalHeight } = originalDimensions;
-                const aspectRatio = originalWidth / originalHeight;
-                let contentWidth, contentHeight;
-
-                if (aspectRatio > 1) { // Landscape
-                    contentWidth = targetDimension;
-                    contentHeight = targetDimension / aspectRatio;
-                } else { // Portrait or square
-                    contentHeight = targetDimension;
-                    contentWidth = targetDimension * aspectRatio;
-                }
-                
-                const offsetX = (targetDimension - contentWidth) / 2;
-                const offsetY = (targetDimension - contentHeight) / 2;
-
-                // Calculate the marker's coordinates relative to the actual image content
-                const markerXInContent = (position.xPercent / 100) * contentWidth;
-                const markerYInContent = (position.yPercent / 100) * contentHeight;
-
-                // The final position on the canvas is the content's offset plus the relative position
-                const finalMarkerX = offsetX + markerXInContent;
-                const finalMarkerY = offsetY + markerYInContent;
+                const { x: finalMarkerX, y: finalMarkerY } = toPaddedSquarePoint(position, { originalWidth, originalHeight }, targetDimension);
 
                 // Make radius proportional to image size, but with a minimum
                 const markerRadius = Math.max(5, Math.min(canvas.width, canvas.height) * 0.015);
 
-                // Draw the marker (red circle with white outline) at the corrected coordinates
-                ctx.beginPath();
-                ctx.arc(finalMarkerX, finalMarkerY, markerRadius, 0, 2 * Math.PI, false);
-                ctx.fillStyle = 'red';
-                ctx.fill();
-                ctx.lineWidth = markerRadius * 0.2;
-                ctx.strokeStyle = 'white';
-                ctx.stroke();
+                if (quad) {
+                    // Draw the opening outline (translucent red fill, red edges, white-ringed corners)
+                    const corners = quad.map(corner => toPaddedSquarePoint(corner, { originalWidth, originalHeight }, targetDimension));
+                    ctx.beginPath();
+                    corners.forEach(({ x, y }, index) => index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+                    ctx.closePath();
+                    ctx.fillStyle = 'rgba(255, 0, 0, 0.2)';
+                    ctx.fill();
+                    ctx.lineWidth = markerRadius * 0.5;
+                    ctx.strokeStyle = 'red';
+                    ctx.stroke();
+                    corners.forEach(({ x, y }) => {
+                        ctx.beginPath();
+                        ctx.arc(x, y, markerRadius * 0.6, 0, 2 * Math.PI, false);
+                        ctx.fillStyle = 'red';
+                        ctx.fill();
+                        ctx.lineWidth = markerRadius * 0.2;
+                        ctx.strokeStyle = 'white';
+                        ctx.stroke();
+                    });
+                } else {
+                    // Draw the marker (red circle with white outline) at the corrected coordinates
+                    ctx.beginPath();
+                    ctx.arc(finalMarkerX, finalMarkerY, markerRadius, 0, 2 * Math.PI, false);
+                    ctx.fillStyle = 'red';
+                    ctx.fill();
+                    ctx.lineWidth = markerRadius * 0.2;
+                    ctx.strokeStyle = 'white';
+                    ctx.stroke();
+                }
 
                 canvas.toBlob((blob) => {
                     if (blob) {
@@ -250,141 +252,457 @@ const markImage = async (
 };
 
 
-/**
- * Generates a composite image using a multi-modal AI model.
- * The model takes a product image, a scene image, and a text prompt
- * to generate a new image with the product placed in the scene.
- * @param objectImage The file for the object to be placed.
- * @param objectDescription A text description of the object.
- * @param environmentImage The file for the background environment.
- * @param environmentDescription A text description of the environment.
- * @param dropPosition The relative x/y coordinates (0-100) where the product was dropped.
- * @returns A promise that resolves to an object containing the base64 data URL of the generated image and the debug image.
- */
-export const generateCompositeImage = async (
-    objectImage: File, 
-    objectDescription: string,
+// The area the door is expected to occupy, in fractions of the photo, used to focus the
+// high-resolution blend. Without a quad or calibrated size there is no reliable hint.
+const getPlacementHint = (
+    dropPosition: RelativePoint,
+    quad?: PlacementQuad,
+    expectedDoorSize?: ExpectedDoorSize
+): RelativeBox | undefined => {
+  if (quad) {
+    const xs = quad.map(corner => corner.xPercent / 100);
+    const ys = quad.map(corner => corner.yPercent / 100);
+    return { left: Math.min(...xs), top: Math.min(...ys), right: Math.max(...xs), bottom: Math.max(...ys) };
+  }
+  if (expectedDoorSize) {
+    const halfWidth = expectedDoorSize.widthPercent / 200;
+    const halfHeight = expectedDoorSize.heightPercent / 200;
+    const x = dropPosition.xPercent / 100;
+    const y = dropPosition.yPercent / 100;
+    return { left: x - halfWidth, top: y - halfHeight, right: x + halfWidth, bottom: y + halfHeight };
+  }
+  return undefined;
+};
+
+export interface GenerateCompositeOptions {
+  provider?: ImageGenerationProvider;
+  /** Outline of the door opening. When given, it is drawn on the marked image and spelled out in the prompt. */
+  quad?: PlacementQuad;
+  /** Whether the door replaces one already there, is cut into a wall or fills an empty opening. Defaults to replacing. */
+  placementMode?: PlacementMode;
+  /** Hinge side, swing, open state, hardware and glazing to render, spelled out in the prompt. */
+  doorConfiguration?: DoorConfiguration;
+  /** Size the door should appear on the scene, from the user's scale calibration. */
+  expectedDoorSize?: ExpectedDoorSize;
+  /** Number of composite candidates to generate. Defaults to 1. */
+  candidateCount?: number;
+  /** Maximum composite calls in flight at once. */
+  concurrency?: number;
+  /**
+   * Asks the model for new composites even when cached ones match these inputs; the new
+   * ones replace them in the cache. The location description is still reused.
+   */
+  regenerate?: boolean;
+  /**
+   * Blend the result into the full-resolution scene instead of returning the model's
+   * ~1024px image. Defaults to true. Only applies when a quad or calibrated size says
+   * where the door went; otherwise the model's image is returned.
+   */
+  preserveResolution?: boolean;
+  /**
+   * Restricts the edit to this region. Only the region and some context around it are
+   * sent to the model, and the result is merged back inside the region only.
+   */
+  inpaintRegion?: InpaintRegion;
+  /** Cancels the generation; the returned promise rejects with an AbortError. */
+  signal?: AbortSignal;
+  /** Called before a failed model call is retried. */
+  onRetry?: (notice: RetryNotice) => void;
+  /** Called as each pipeline stage starts, finishes or fails. */
+  onProgress?: (event: GenerationProgressEvent) => void;
+}
+
+interface CompositeResult {
+  finalImage: Blob;
+  candidateImages: Blob[];
+  debugImageUrl: string;
+  finalPrompt: string;
+  /** The prompt template versions used, for the record kept with the result. */
+  promptTemplates: PromptTemplateRefs;
+  /** Problems that did not stop the generation, e.g. a failed description step. */
+  warnings: GenerationWarning[];
+  /** Which steps were answered from the generation cache, for the debug view. */
+  cacheLookups: CacheLookup[];
+}
+
+// Encodes a canvas as a lossless PNG file.
+const canvasToFile = (canvas: HTMLCanvasElement, name: string): Promise<File> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(new File([blob], name, { type: 'image/png', lastModified: Date.now() }));
+            } else {
+                reject(new Error('Canvas to Blob conversion failed.'));
+            }
+        }, 'image/png');
+    });
+};
+
+// Crops the scene to `box` and renders the matching region mask, both at full resolution.
+const prepareInpaintInputs = async (
     environmentImage: File,
-    environmentDescription: string,
-    dropPosition: { xPercent: number; yPercent: number; }
-): Promise<{ finalImageUrl: string; debugImageUrl: string; finalPrompt: string; }> => {
-  console.log('Starting multi-step image generation process...');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    region: InpaintRegion,
+    box: PixelBox
+): Promise<{ croppedScene: File; mask: File }> => {
+    const image = await loadImage(environmentImage);
+    const sceneCanvas = document.createElement('canvas');
+    sceneCanvas.width = box.width;
+    sceneCanvas.height = box.height;
+    const maskCanvas = document.createElement('canvas');
+    maskCanvas.width = box.width;
+    maskCanvas.height = box.height;
+    const sceneCtx = sceneCanvas.getContext('2d');
+    const maskCtx = maskCanvas.getContext('2d');
+    if (!sceneCtx || !maskCtx) {
+        throw new Error('Could not get canvas context for the inpainting region.');
+    }
+    sceneCtx.drawImage(image, box.left, box.top, box.width, box.height, 0, 0, box.width, box.height);
+    maskCtx.fillStyle = 'black';
+    maskCtx.fillRect(0, 0, box.width, box.height);
+    maskCtx.translate(-box.left, -box.top);
+    drawInpaintRegion(maskCtx, region, image.naturalWidth, image.naturalHeight);
+
+    const [croppedScene, mask] = await Promise.all([
+        canvasToFile(sceneCanvas, `region-${environmentImage.name}`),
+        canvasToFile(maskCanvas, `mask-${environmentImage.name}`),
+    ]);
+    return { croppedScene, mask };
+};
 
-  // Get original scene dimensions for final cropping and correct marker placement
+// What the model works on. Normally this is the whole photo; in masked mode it is a crop
+// around the inpainting region, with the placement re-expressed relative to the crop.
+interface ModelScene {
+  image: File;
+  width: number;
+  height: number;
+  dropPosition: RelativePoint;
+  quad?: PlacementQuad;
+  expectedDoorSize?: ExpectedDoorSize;
+  /** Editable area, aligned with `image` (masked mode only). */
+  mask?: File;
+  /** Turns a result cropped to `image`'s aspect ratio into the final full-photo image. */
+  finalize: (croppedImageUrl: string) => Promise<Blob>;
+}
+
+const prepareModelScene = async (
+    environmentImage: File,
+    dropPosition: RelativePoint,
+    options: GenerateCompositeOptions
+): Promise<ModelScene> => {
+  const { quad, expectedDoorSize, inpaintRegion, preserveResolution = true } = options;
   const { width: originalWidth, height: originalHeight } = await getImageDimensions(environmentImage);
-  
-  // Define standard dimension for model inputs
-  const MAX_DIMENSION = 1024;
-  
-  // STEP 1: Prepare images by resizing
-  console.log('Resizing product and scene images...');
-  const resizedObjectImage = await resizeImage(objectImage, MAX_DIMENSION);
-  const resizedEnvironmentImage = await resizeImage(environmentImage, MAX_DIMENSION);
-
-  // STEP 2: Mark the resized scene image for the description model and debug view
-  console.log('Marking scene image for analysis...');
-  // Pass original dimensions to correctly calculate marker position on the padded image
-  const markedResizedEnvironmentImage = await markImage(resizedEnvironmentImage, dropPosition, { originalWidth, originalHeight });
 
-  // The debug image is now the marked one.
-  const debugImageUrl = await fileToDataUrl(markedResizedEnvironmentImage);
+  if (!inpaintRegion) {
+    const placementHint = getPlacementHint(dropPosition, quad, expectedDoorSize);
+    return {
+      image: environmentImage,
+      width: originalWidth,
+      height: originalHeight,
+      dropPosition,
+      quad,
+      expectedDoorSize,
+      finalize: async (croppedImageUrl) => {
+        if (!preserveResolution) {
+          return dataUrlToBlob(croppedImageUrl);
+        }
+        // Without a hint the change detection would take in the whole photo, so keep the model's output.
+        if (!placementHint) {
+          console.log('No quad or calibrated size to limit the blend; keeping the model output.');
+          return dataUrlToBlob(croppedImageUrl);
+        }
+        console.log(`Blending the edited region into the ${originalWidth}x${originalHeight} original...`);
+        return blendIntoOriginal(environmentImage, croppedImageUrl, placementHint);
+      },
+    };
+  }
 
+  const regionBounds = getInpaintRegionBounds(inpaintRegion, originalWidth, originalHeight);
+  const box = expandBox(regionBounds, INPAINT_CONTEXT_FRACTION, originalWidth, originalHeight);
+  console.log(`Masked mode: editing a ${regionBounds.width}x${regionBounds.height} region inside a ${box.width}x${box.height} crop...`);
+  const { croppedScene, mask } = await prepareInpaintInputs(environmentImage, inpaintRegion, box);
 
-  // STEP 3: Generate semantic location description with Gemini 2.5 Flash Lite using the MARKED image
-  console.log('Generating semantic location description with gemini-2.5-flash-lite...');
-  
-  const markedEnvironmentImagePart = await fileToPart(markedResizedEnvironmentImage);
+  // Placement inputs are relative to the whole photo; re-express them relative to the crop.
+  const toCrop = (point: RelativePoint): RelativePoint => ({
+    xPercent: (((point.xPercent / 100) * originalWidth - box.left) / box.width) * 100,
+    yPercent: (((point.yPercent / 100) * originalHeight - box.top) / box.height) * 100,
+  });
+  return {
+    image: croppedScene,
+    width: box.width,
+    height: box.height,
+    dropPosition: toCrop(dropPosition),
+    quad: quad && (quad.map(toCrop) as PlacementQuad),
+    expectedDoorSize: expectedDoorSize && {
+      ...expectedDoorSize,
+      widthPercent: (expectedDoorSize.widthPx / box.width) * 100,
+      heightPercent: (expectedDoorSize.heightPx / box.height) * 100,
+    },
+    mask,
+    finalize: (croppedImageUrl) => {
+      console.log('Merging the edited region back into the original...');
+      return mergeMaskedEdit(environmentImage, croppedImageUrl, box, inpaintRegion);
+    },
+  };
+};
 
-  const descriptionPrompt = `
-You are an expert scene analyst. I will provide you with an image that has a red marker on it.
-Your task is to provide a very dense, semantic description of what is at the exact location of the red marker.
-Be specific about surfaces, objects, and spatial relationships. This description will be used to guide another AI in placing a new object.
+// The pipeline behind `generateCompositeImage`; its errors are typed by the caller.
+const runPlacementPipeline = async (
+    objectImage: File, 
+    objectDescription: string,
+    environmentImage: File,
+    environmentDescription: string,
+    dropPosition: RelativePoint,
+    options: GenerateCompositeOptions = {}
+): Promise<CompositeResult> => {
+  const provider = options.provider ?? getImageProvider();
+  const { signal, onRetry, placementMode = 'replace-existing' } = options;
+  const runStage = createStageRunner(options.onProgress);
+  console.log(`Starting multi-step image generation process with the "${provider.id}" provider...`);
 
-Example semantic descriptions:
-- "The product location is on the dark grey fabric of the sofa cushion, in the middle section, slightly to the left of the white throw pillow."
-- "The product location is on the light-colored wooden floor, in the patch of sunlight coming from the window, about a foot away from the leg of the brown leather armchair."
-- "The product location is on the white marble countertop, just to the right of the stainless steel sink and behind the green potted plant."
+  // Define standard dimension for model inputs
+  const MAX_DIMENSION = 1024;
 
-On top of the semantic description above, give a rough relative-to-image description.
+  // Resized images, the description and each composite are looked up by a hash of their inputs first.
+  const cacheLookups: CacheLookup[] = [];
+  const recordCacheLookup = (lookup: CacheLookup) => cacheLookups.push(lookup);
+  const resizeCached = (file: File, image: CacheLookup['image']) => withCache(
+    { stage: 'resize', image },
+    async () => ({ image: await hashBlob(file), targetDimension: MAX_DIMENSION }),
+    () => resizeImage(file, MAX_DIMENSION),
+    recordCacheLookup
+  );
+
+  // STEP 1: Prepare images by resizing (in masked mode, after cutting out the region to edit)
+  const { modelScene, resizedObjectImage, resizedEnvironmentImage, resizedMaskImage } = await runStage('resize', async () => {
+    console.log('Resizing product and scene images...');
+    try {
+      const modelScene = await prepareModelScene(environmentImage, dropPosition, options);
+      const resizedObjectImage = await resizeCached(objectImage, 'door');
+      const resizedEnvironmentImage = await resizeCached(modelScene.image, 'scene');
+      // The mask gets the same padding as the scene, so it stays aligned (padding is black: not editable).
+      const resizedMaskImage = modelScene.mask && await resizeCached(modelScene.mask, 'mask');
+      return { modelScene, resizedObjectImage, resizedEnvironmentImage, resizedMaskImage };
+    } catch (err) {
+      // Nothing has reached the model yet, so a failure here means an image could not be read.
+      throw new GenerationError('invalid-input', 'The door or scene image could not be prepared.', err);
+    }
+  });
+  throwIfAborted(signal);
+  const { width: originalWidth, height: originalHeight, quad, expectedDoorSize } = modelScene;
 
-Example relative-to-image descriptions:
-- "The product location is about 10% away from the bottom-left of the image."
-- "The product location is about 20% away from the right of the image."
+  // STEP 2: Mark the resized scene image for the description model and debug view
+  const { markedResizedEnvironmentImage, debugImageUrl } = await runStage('mark', async () => {
+    console.log('Marking scene image for analysis...');
+    // Pass original dimensions to correctly calculate marker position on the padded image
+    const markedResizedEnvironmentImage = await markImage(resizedEnvironmentImage, modelScene.dropPosition, { originalWidth, originalHeight }, quad);
+    // The debug image is now the marked one.
+    const debugImageUrl = await fileToDataUrl(markedResizedEnvironmentImage);
+    return { markedResizedEnvironmentImage, debugImageUrl };
+  });
 
-Provide only the two descriptions concatenated in a few sentences.
-`;
-  
-  let semanticLocationDescription = '';
-  try {
-    const descriptionResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents: { parts: [{ text: descriptionPrompt }, markedEnvironmentImagePart] }
-    });
-    semanticLocationDescription = descriptionResponse.text;
-    console.log('Generated description:', semanticLocationDescription);
-  } catch (error) {
-    console.error('Failed to generate semantic location description:', error);
-    // Fallback to a generic statement if the description generation fails
-    semanticLocationDescription = `at the specified location.`;
-  }
+  // Providers and prompts receive the placement as fractions of the padded square the model sees.
+  const toSquareFraction = (point: RelativePoint) => {
+    const { x, y } = toPaddedSquarePoint(point, { originalWidth, originalHeight }, MAX_DIMENSION);
+    return { x: x / MAX_DIMENSION, y: y / MAX_DIMENSION };
+  };
+  const placement = toSquareFraction(modelScene.dropPosition);
+  const quadCorners = quad?.map(toSquareFraction);
+  // The expected size is relative to the photo; convert it to the padded square as well.
+  const contentRect = getContentRect(originalWidth, originalHeight, MAX_DIMENSION);
+  const expectedSizeInSquare = expectedDoorSize && {
+    width: (expectedDoorSize.widthPercent / 100) * contentRect.width / MAX_DIMENSION,
+    height: (expectedDoorSize.heightPercent / 100) * contentRect.height / MAX_DIMENSION,
+  };
+
+
+  // STEP 3: Generate semantic location description using the MARKED image
+  console.log(`Generating semantic location description with ${provider.models.describe}...`);
+
+  const descriptionPrompt = renderPrompt('describe-location', { hasOutline: !!quad, placementMode });
+
+  const warnings: GenerationWarning[] = [];
+  const semanticLocationDescription = await runStage('describe', async () => {
+    try {
+      // The marked image is drawn from the resized scene and the placement, so those stand in for it.
+      const description = await withCache(
+        { stage: 'describe' },
+        async () => ({
+          scene: await hashBlob(resizedEnvironmentImage),
+          placement,
+          quad: quadCorners,
+          prompt: descriptionPrompt.text,
+          template: descriptionPrompt.templateId,
+          provider: provider.id,
+          model: provider.models.describe,
+        }),
+        () => withRetry('describe', stepSignal => provider.describeLocation({
+          prompt: descriptionPrompt.text,
+          markedSceneImage: markedResizedEnvironmentImage,
+          placement,
+          quad: quadCorners,
+          signal: stepSignal,
+        }), { timeoutMs: DESCRIBE_TIMEOUT_MS, signal, onRetry }),
+        recordCacheLookup
+      );
+      console.log('Generated description:', description);
+      return description;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Failed to generate semantic location description:', error);
+      warnings.push({
+        kind: 'description-fallback',
+        message: `The spot could not be described (${toGenerationError(error).message}), so the door was placed from its position alone.`,
+      });
+      // Fallback to a generic statement if the description generation fails
+      return `at the specified location.`;
+    }
+  });
 
   // STEP 4: Generate composite image using the CLEAN image and the description
   console.log('Preparing to generate composite image...');
   
-  const objectImagePart = await fileToPart(resizedObjectImage);
-  const cleanEnvironmentImagePart = await fileToPart(resizedEnvironmentImage); // IMPORTANT: Use clean image
-  
-  const prompt = `
-**Role:**
-You are a visual composition expert. Your task is to take a 'product' image and seamlessly integrate it into a 'scene' image, adjusting for perspective, lighting, and scale.
-
-**Specifications:**
--   **Product to add:**
-    The first image provided. It may be surrounded by black padding or background, which you should ignore and treat as transparent and only keep the product.
--   **Scene to use:**
-    The second image provided. It may also be surrounded by black padding, which you should ignore.
--   **Placement Instruction (Crucial):**
-    -   You must place the product at the location described below exactly. You should only place the product once. Use this dense, semantic description to find the exact spot in the scene.
-    -   **Product location Description:** "${semanticLocationDescription}"
--   **Final Image Requirements:**
-    -   The output image's style, lighting, shadows, reflections, and camera perspective must exactly match the original scene.
-    -   Do not just copy and paste the product. You must intelligently re-render it to fit the context. Adjust the product's perspective and orientation to its most natural position, scale it appropriately, and ensure it casts realistic shadows according to the scene's light sources.
-    -   The product must have proportional realism. For example, a lamp product can't be bigger than a sofa in scene.
-    -   You must not return the original scene image without product placement. The product must be always present in the composite image.
-
-The output should ONLY be the final, composed image. Do not add any text or explanation.
-`;
-
-  const textPart = { text: prompt };
-  
-  console.log('Sending images and augmented prompt...');
-  
-  const response: GenerateContentResponse = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: { parts: [objectImagePart, cleanEnvironmentImagePart, textPart] }, // IMPORTANT: Use clean image
+  const prompt = renderPrompt('composite', {
+    doorSpecs: objectDescription,
+    locationDescription: semanticLocationDescription,
+    expectedSize: expectedSizeInSquare,
+    outlineCorners: quadCorners,
+    hasMask: !!resizedMaskImage,
+    placementMode,
+    doorConfiguration: options.doorConfiguration,
   });
-
-  console.log('Received response.');
-  
-  const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-  if (imagePartFromResponse?.inlineData) {
-    const { mimeType, data } = imagePartFromResponse.inlineData;
-    console.log(`Received image data (${mimeType}), length:`, data.length);
-    const generatedSquareImageUrl = `data:${mimeType};base64,${data}`;
-    
-    console.log('Cropping generated image to original aspect ratio...');
-    const finalImageUrl = await cropToOriginalAspectRatio(
-        generatedSquareImageUrl,
-        originalWidth,
-        originalHeight,
-        MAX_DIMENSION
+  console.log(`Using prompt templates ${descriptionPrompt.templateId} and ${prompt.templateId}.`);
+
+  const candidateCount = Math.max(1, options.candidateCount ?? 1);
+  const concurrency = options.concurrency ?? DEFAULT_CANDIDATE_CONCURRENCY;
+
+  // Each candidate is an independent composite call on the same inputs; results vary between runs.
+  const generatedImageUrls = await runStage('compose', async () => {
+    console.log(`Requesting ${candidateCount} candidate(s) from ${provider.models.composite} (up to ${concurrency} at a time)...`);
+    const results = await mapWithConcurrency(
+      Array.from({ length: candidateCount }, (_, index) => index),
+      concurrency,
+      async (candidateIndex): Promise<string> => {
+        // Candidates are keyed by index, so asking for more reuses the ones already made.
+        const generatedImage = await withCache(
+          { stage: 'compose', candidateIndex },
+          async () => ({
+            product: await hashBlob(resizedObjectImage),
+            scene: await hashBlob(resizedEnvironmentImage),
+            mask: resizedMaskImage ? await hashBlob(resizedMaskImage) : null,
+            placement,
+            quad: quadCorners,
+            expectedSize: expectedSizeInSquare,
+            candidateIndex,
+            prompt: prompt.text,
+            template: prompt.templateId,
+            provider: provider.id,
+            model: provider.models.composite,
+          }),
+          () => withRetry('compose', stepSignal => provider.generateComposite({
+            prompt: prompt.text,
+            productImage: resizedObjectImage,
+            sceneImage: resizedEnvironmentImage, // IMPORTANT: Use clean image
+            placement,
+            quad: quadCorners,
+            expectedSize: expectedSizeInSquare,
+            candidateIndex,
+            maskImage: resizedMaskImage,
+            signal: stepSignal,
+          }), { timeoutMs: COMPOSITE_TIMEOUT_MS, signal, onRetry }),
+          recordCacheLookup,
+          { refresh: options.regenerate }
+        );
+
+        if (!generatedImage) {
+          throw new GenerationError('no-image', 'The AI model did not return an image.');
+        }
+        const { mimeType, data } = generatedImage;
+        console.log(`Received candidate ${candidateIndex + 1} (${mimeType}), length:`, data.length);
+        return `data:${mimeType};base64,${data}`;
+      }
     );
-    
-    return { finalImageUrl, debugImageUrl, finalPrompt: prompt };
-  }
 
-  console.error("Model response did not contain an image part.", response);
-  throw new Error("The AI model did not return an image. Please try again.");
-};
\ No newline at end of file
+    const imageUrls = results
+      .filter((result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled')
+      .map(result => result.value);
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    failures.forEach(failure => console.error('Candidate generation failed:', failure.reason));
+
+    // Partial success is still useful; only fail when no candidate came back.
+    throwIfAborted(signal);
+    if (imageUrls.length === 0) {
+      throw failures[0].reason;
+    }
+    return imageUrls;
+  });
+
+  // STEP 5: Crop away the padding and put each result back into the full photo
+  const candidateImages = await runStage('crop', async () => {
+    const finalImages: Blob[] = [];
+    for (const generatedSquareImageUrl of generatedImageUrls) {
+      throwIfAborted(signal);
+      console.log('Cropping generated image to original aspect ratio...');
+      const croppedImageUrl = await cropToOriginalAspectRatio(
+          generatedSquareImageUrl,
+          originalWidth,
+          originalHeight,
+          MAX_DIMENSION
+      );
+      finalImages.push(await modelScene.finalize(croppedImageUrl));
+    }
+    return finalImages;
+  });
+
+  return {
+    finalImage: candidateImages[0],
+    candidateImages,
+    debugImageUrl,
+    finalPrompt: prompt.text,
+    promptTemplates: { describe: descriptionPrompt.templateId, composite: prompt.templateId },
+    warnings,
+    cacheLookups,
+  };
+};
+
+/**
+ * Generates a composite image using a multi-modal AI model.
+ * The model takes a product image, a scene image, and a text prompt
+ * to generate a new image with the product placed in the scene.
+ * @param objectImage The file for the object to be placed.
+ * @param objectDescription A text description of the object, e.g. from `describeDoorForPrompt`.
+ * @param environmentImage The file for the background environment.
+ * @param environmentDescription A text description of the environment.
+ * @param dropPosition The relative x/y coordinates (0-100) where the product was dropped.
+ * @param options.provider The backend that runs the model steps. Defaults to the configured provider.
+ * @param options.quad The four corners of the door opening, in the same units as `dropPosition`.
+ * @param options.placementMode What the door does at the spot; it changes both prompts.
+ * @param options.doorConfiguration How the door is hung and fitted out, added to the composite prompt.
+ * @param options.expectedDoorSize The calibrated on-photo size of the door, added to the prompt.
+ * @param options.candidateCount How many candidates to generate from one description step.
+ * @param options.concurrency How many composite calls may run in parallel.
+ * @param options.regenerate Whether to skip cached composites and ask the model again.
+ * @param options.preserveResolution Whether to blend the edit back into the original photo.
+ * @param options.inpaintRegion Limits the edit to this region of the scene (masked mode).
+ * @param options.signal Cancels the generation. Model calls are also retried on rate limits,
+ * server errors and timeouts; `options.onRetry` is told before each retry.
+ * @param options.onProgress Receives timed events as each stage (resize, mark, describe, compose, crop) runs.
+ * @returns A promise that resolves to the generated candidates as image blobs (the first also as
+ * `finalImage`), the debug image, the prompt with its template versions, any warnings, and
+ * which steps were answered from the generation cache.
+ * @throws GenerationError for every failure except cancellation, which rejects with an AbortError.
+ */
+export const generateCompositeImage = async (
+    objectImage: File,
+    objectDescription: string,
+    environmentImage: File,
+    environmentDescription: string,
+    dropPosition: RelativePoint,
+    options: GenerateCompositeOptions = {}
+): Promise<CompositeResult> => {
+  try {
+    return await runPlacementPipeline(objectImage, objectDescription, environmentImage, environmentDescription, dropPosition, options);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw toGenerationError(err);
+  }
+};
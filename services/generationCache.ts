@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CacheLookup } from '../types';
+import { createWithStores } from './indexedDb';
+
+// A content-addressed cache for the placement pipeline's resized images,
+// location descriptions and composites. Keys are hashes of everything a step's
+// result depends on, so an entry never needs invalidating: changed inputs, a
+// new prompt version or another model simply give a different key.
+
+const DB_NAME = 'atak-generation-cache';
+const DB_VERSION = 1;
+// Values can be large images; the entries store holds their sizes and last
+// use, so eviction can run without reading any values.
+const VALUES_STORE = 'values';
+const ENTRIES_STORE = 'entries';
+const LAST_USED_INDEX = 'lastUsedAt';
+
+/** Least recently used entries are evicted once the cache grows past this. */
+export const MAX_CACHE_BYTES = 150 * 1024 * 1024;
+
+interface CacheEntry {
+  key: string;
+  stage: CacheLookup['stage'];
+  sizeBytes: number;
+  lastUsedAt: number;
+}
+
+/** Values a step's result depends on; images go in as their `hashBlob` hashes. */
+export type CacheInputs = Record<string, unknown>;
+
+const withStores = createWithStores({
+  name: DB_NAME,
+  version: DB_VERSION,
+  description: 'generation cache',
+  stores: { values: VALUES_STORE, entries: ENTRIES_STORE },
+  upgrade: db => {
+    if (!db.objectStoreNames.contains(VALUES_STORE)) db.createObjectStore(VALUES_STORE);
+    if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+      db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' }).createIndex(LAST_USED_INDEX, 'lastUsedAt');
+    }
+  },
+});
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource): Promise<string> => {
+  // Only available in secure contexts; without it the cache is skipped.
+  if (!crypto.subtle) {
+    throw new Error('Hashing needs a secure context (HTTPS or localhost).');
+  }
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+// The same file is hashed by several steps of one generation; hash it once.
+const blobHashes = new WeakMap<Blob, Promise<string>>();
+
+/** SHA-256 of a file's bytes, as hex. */
+export const hashBlob = (blob: Blob): Promise<string> => {
+  let hash = blobHashes.get(blob);
+  if (!hash) {
+    hash = blob.arrayBuffer().then(sha256);
+    blobHashes.set(blob, hash);
+    hash.catch(() => blobHashes.delete(blob));
+  }
+  return hash;
+};
+
+// Numbers are rounded so that float noise in placements does not split entries.
+const roundNumbers = (_key: string, value: unknown) =>
+  typeof value === 'number' ? Math.round(value * 10000) / 10000 : value;
+
+const createCacheKey = (stage: CacheLookup['stage'], inputs: CacheInputs): Promise<string> =>
+  sha256(new TextEncoder().encode(JSON.stringify({ stage, ...inputs }, roundNumbers)));
+
+const getSizeBytes = (value: unknown): number =>
+  value instanceof Blob ? value.size : new Blob([JSON.stringify(value)]).size;
+
+const readValue = async <T>(key: string): Promise<T | undefined> => {
+  const value = await withStores<T>('readonly', ({ values }) => values.get(key));
+  if (value !== undefined) {
+    // Mark it as used; losing this update only makes eviction slightly less accurate.
+    withStores('readwrite', ({ entries }) => {
+      const request = entries.get(key);
+      request.onsuccess = () => {
+        if (request.result) entries.put({ ...request.result, lastUsedAt: Date.now() });
+      };
+    }).catch(err => console.warn('Could not update a generation cache entry:', err));
+  }
+  return value;
+};
+
+// Drops the least recently used entries until the cache fits its budget.
+const evictToFit = () => withStores('readwrite', ({ values, entries }) => {
+  const oldestFirst: CacheEntry[] = [];
+  const request = entries.index(LAST_USED_INDEX).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      oldestFirst.push(cursor.value);
+      cursor.continue();
+      return;
+    }
+    let totalBytes = oldestFirst.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+    for (const entry of oldestFirst) {
+      if (totalBytes <= MAX_CACHE_BYTES) break;
+      values.delete(entry.key);
+      entries.delete(entry.key);
+      totalBytes -= entry.sizeBytes;
+    }
+  };
+});
+
+const writeValue = async (key: string, stage: CacheLookup['stage'], value: unknown): Promise<void> => {
+  const entry: CacheEntry = { key, stage, sizeBytes: getSizeBytes(value), lastUsedAt: Date.now() };
+  await withStores('readwrite', ({ values, entries }) => {
+    values.put(value, key);
+    entries.put(entry);
+  });
+  await evictToFit();
+};
+
+/**
+ * Returns a step's cached result for these inputs, or computes it, stores it and
+ * returns it. Null results are not stored, so an empty model response is asked
+ * for again next time. The cache is best effort: when it cannot be used the step
+ * simply runs, and `onLookup` is only told about lookups that actually happened.
+ * @param lookup The step, reported back with the key and whether it hit.
+ * @param getInputs Everything the result depends on, including the model and prompt version.
+ * @param options.refresh Skips the cached result and replaces it with a freshly computed one,
+ * for when the user asks for a new result on the same inputs.
+ */
+export const withCache = async <T>(
+  lookup: Omit<CacheLookup, 'key' | 'hit'>,
+  getInputs: () => Promise<CacheInputs>,
+  compute: () => Promise<T>,
+  onLookup?: (lookup: CacheLookup) => void,
+  options: { refresh?: boolean } = {}
+): Promise<T> => {
+  let key: string | null = null;
+  try {
+    key = await createCacheKey(lookup.stage, await getInputs());
+    const cached = options.refresh ? undefined : await readValue<T>(key);
+    if (cached !== undefined) {
+      onLookup?.({ ...lookup, key, hit: true });
+      return cached;
+    }
+    onLookup?.({ ...lookup, key, hit: false });
+  } catch (err) {
+    console.warn('Generation cache unavailable, running the step without it:', err);
+    key = null;
+  }
+
+  const value = await compute();
+  if (key && value !== null && value !== undefined) {
+    writeValue(key, lookup.stage, value).catch(err => console.warn('Could not store a generation cache entry:', err));
+  }
+  return value;
+};
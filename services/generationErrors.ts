@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getErrorStatus, TimeoutError } from './retry';
+
+// Typed failures and warnings from the placement pipeline, so the UI can explain
+// what went wrong and offer a recovery that fits.
+
+export type GenerationErrorKind =
+  | 'safety-blocked'
+  | 'quota-exceeded'
+  | 'no-image'
+  | 'network'
+  | 'invalid-input'
+  | 'unknown';
+
+/** The error `generateCompositeImage` rejects with (apart from cancellation). */
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+
+  /** @param cause The underlying error, kept for logging. */
+  constructor(kind: GenerationErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+  }
+}
+
+export type GenerationWarningKind = 'description-fallback';
+
+/** Something that degraded a successful generation without failing it. */
+export interface GenerationWarning {
+  kind: GenerationWarningKind;
+  /** English, with the underlying cause, for logs; the interface words the warning from its kind. */
+  message: string;
+}
+
+const getErrorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+/**
+ * Maps any pipeline failure to a `GenerationError`. Errors that are already
+ * typed pass through; SDK and network errors are classified by status and type.
+ */
+export const toGenerationError = (err: unknown): GenerationError => {
+  if (err instanceof GenerationError) return err;
+  const message = getErrorMessage(err);
+  const status = getErrorStatus(err);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new GenerationError('quota-exceeded', `The request limit was reached. ${message}`, err);
+  }
+  if (status === 400 || /INVALID_ARGUMENT/.test(message)) {
+    return new GenerationError('invalid-input', `The model rejected the images. ${message}`, err);
+  }
+  if (err instanceof TimeoutError || err instanceof TypeError || (status !== null && status >= 500)) {
+    return new GenerationError('network', message, err);
+  }
+  return new GenerationError('unknown', message, err);
+};
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Progress reporting for the placement pipeline in `geminiService`.
+
+/** The pipeline's stages, in the order they run. */
+export const GENERATION_STAGES = ['resize', 'mark', 'describe', 'compose', 'crop'] as const;
+
+export type GenerationStage = typeof GENERATION_STAGES[number];
+
+export type GenerationStageStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface GenerationProgressEvent {
+  stage: GenerationStage;
+  status: Exclude<GenerationStageStatus, 'pending'>;
+  /** Milliseconds since the generation started. */
+  elapsedMs: number;
+  /** How long the stage took; set on completion or failure. */
+  durationMs?: number;
+  /** Failure message, when `status` is 'failed'. */
+  error?: string;
+}
+
+export interface GenerationStageState {
+  status: GenerationStageStatus;
+  durationMs?: number;
+  error?: string;
+}
+
+export type GenerationProgress = Record<GenerationStage, GenerationStageState>;
+
+export const createInitialProgress = (): GenerationProgress =>
+  Object.fromEntries(GENERATION_STAGES.map(stage => [stage, { status: 'pending' }])) as GenerationProgress;
+
+/** Folds an event into the per-stage state shown by the UI. */
+export const applyProgressEvent = (progress: GenerationProgress, event: GenerationProgressEvent): GenerationProgress => ({
+  ...progress,
+  [event.stage]: { status: event.status, durationMs: event.durationMs, error: event.error },
+});
+
+/**
+ * Returns a helper that runs one stage and reports its start, end and timing.
+ * Errors are reported and re-thrown unchanged.
+ */
+export const createStageRunner = (onProgress?: (event: GenerationProgressEvent) => void) => {
+  const startedAt = performance.now();
+  return async <T>(stage: GenerationStage, task: () => Promise<T>): Promise<T> => {
+    const stageStartedAt = performance.now();
+    onProgress?.({ stage, status: 'running', elapsedMs: stageStartedAt - startedAt });
+    try {
+      const result = await task();
+      const now = performance.now();
+      onProgress?.({ stage, status: 'completed', elapsedMs: now - startedAt, durationMs: now - stageStartedAt });
+      return result;
+    } catch (err) {
+      const now = performance.now();
+      onProgress?.({
+        stage,
+        status: 'failed',
+        elapsedMs: now - startedAt,
+        durationMs: now - stageStartedAt,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+  };
+};
@@ -0,0 +1,285 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage } from './imageUtils';
+import { drawInpaintRegion, PixelBox } from './inpaintMask';
+import { InpaintRegion } from '../types';
+
+// Blends low-resolution model results back into the full-resolution original photo.
+// The model only ever sees a ~1024px copy of the scene, so its output is compared
+// against that copy to find the pixels it actually changed. Only that region (with a
+// feathered edge) is upscaled and painted onto the original; every other pixel is
+// copied through untouched and the result is encoded losslessly. Masked edits skip the
+// change detection and use the user's region instead. Both return PNG blobs; a
+// full-resolution photo is too large to pass around as a data URL.
+
+/** A box in fractions (0-1) of the image's width and height. */
+export interface RelativeBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Per-channel difference (0-255) above which a pixel counts as edited by the model.
+const CHANGE_THRESHOLD = 28;
+// Softening of the change map before thresholding, so JPEG noise does not register as edits.
+const NOISE_RADIUS = 2;
+// How far the edited region grows beyond the detected change, and how soft its edge is,
+// as a fraction of the generated image's shorter side.
+const DILATE_FRACTION = 0.015;
+const FEATHER_FRACTION = 0.01;
+// How much extra room around the placement hint may still count as edited (shadows, trim).
+const HINT_MARGIN_FRACTION = 0.5;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not get canvas context for blending.');
+  }
+  return { canvas, ctx };
+};
+
+// Separable box blur on a single-channel map; a cheap stand-in for a gaussian.
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  if (radius < 1) return values;
+  const horizontal = new Float32Array(values.length);
+  const output = new Float32Array(values.length);
+  const size = radius * 2 + 1;
+  for (let y = 0; y < height; y++) {
+    let sum = 0;
+    for (let x = -radius; x <= radius; x++) sum += values[y * width + Math.min(width - 1, Math.max(0, x))];
+    for (let x = 0; x < width; x++) {
+      horizontal[y * width + x] = sum / size;
+      const add = Math.min(width - 1, x + radius + 1);
+      const remove = Math.max(0, x - radius);
+      sum += values[y * width + add] - values[y * width + remove];
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = -radius; y <= radius; y++) sum += horizontal[Math.min(height - 1, Math.max(0, y)) * width + x];
+    for (let y = 0; y < height; y++) {
+      output[y * width + x] = sum / size;
+      const add = Math.min(height - 1, y + radius + 1);
+      const remove = Math.max(0, y - radius);
+      sum += horizontal[add * width + x] - horizontal[remove * width + x];
+    }
+  }
+  return output;
+};
+
+// Builds a 0-1 mask (at the generated image's resolution) of where the model changed the scene.
+const buildEditMask = (
+  original: ImageData,
+  generated: ImageData,
+  hint: RelativeBox
+): Float32Array => {
+  const { width, height } = generated;
+  const difference = new Float32Array(width * height);
+  for (let i = 0; i < difference.length; i++) {
+    const offset = i * 4;
+    difference[i] = Math.max(
+      Math.abs(original.data[offset] - generated.data[offset]),
+      Math.abs(original.data[offset + 1] - generated.data[offset + 1]),
+      Math.abs(original.data[offset + 2] - generated.data[offset + 2])
+    );
+  }
+
+  // Restrict detection to the area around the placement, so global tone shifts do not leak in.
+  const marginX = (hint.right - hint.left) * HINT_MARGIN_FRACTION;
+  const marginY = (hint.bottom - hint.top) * HINT_MARGIN_FRACTION;
+  const bounds = {
+    left: Math.max(0, Math.floor((hint.left - marginX) * width)),
+    top: Math.max(0, Math.floor((hint.top - marginY) * height)),
+    right: Math.min(width, Math.ceil((hint.right + marginX) * width)),
+    bottom: Math.min(height, Math.ceil((hint.bottom + marginY) * height)),
+  };
+
+  const smoothed = boxBlur(difference, width, height, NOISE_RADIUS);
+  const changed = new Float32Array(width * height);
+  for (let y = bounds.top; y < bounds.bottom; y++) {
+    for (let x = bounds.left; x < bounds.right; x++) {
+      const i = y * width + x;
+      changed[i] = smoothed[i] > CHANGE_THRESHOLD ? 1 : 0;
+    }
+  }
+
+  // Grow the region to cover soft shadows next to the change, then feather its edge.
+  const shorterSide = Math.min(width, height);
+  const dilated = boxBlur(changed, width, height, Math.round(shorterSide * DILATE_FRACTION));
+  for (let i = 0; i < dilated.length; i++) dilated[i] = dilated[i] > 0 ? 1 : 0;
+  return boxBlur(dilated, width, height, Math.round(shorterSide * FEATHER_FRACTION));
+};
+
+// Bounding box of the non-zero mask pixels, or null if the mask is empty.
+const getMaskBounds = (mask: Float32Array, width: number, height: number) => {
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] > 0) {
+        if (x < left) left = x;
+        if (x > right) right = x;
+        if (y < top) top = y;
+        if (y > bottom) bottom = y;
+      }
+    }
+  }
+  return right < 0 ? null : { left, top, right: right + 1, bottom: bottom + 1 };
+};
+
+// Upscales part of an image into a patch of the given size and returns its pixels.
+const scaleToPatch = (
+  source: CanvasImageSource,
+  sourceRect: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number
+): ImageData => {
+  const patch = createCanvas(width, height);
+  patch.ctx.imageSmoothingQuality = 'high';
+  patch.ctx.drawImage(source, sourceRect.x, sourceRect.y, sourceRect.width, sourceRect.height, 0, 0, width, height);
+  return patch.ctx.getImageData(0, 0, width, height);
+};
+
+// Turns a 0-1 mask into a canvas whose alpha channel holds it, so it can be scaled like an image.
+const maskToCanvas = (mask: Float32Array, width: number, height: number): HTMLCanvasElement => {
+  const maskImage = new ImageData(width, height);
+  for (let i = 0; i < mask.length; i++) maskImage.data[i * 4 + 3] = Math.round(mask[i] * 255);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.putImageData(maskImage, 0, 0);
+  return canvas;
+};
+
+// Mixes a generated patch into the canvas at (left, top) using the patch-sized alpha values.
+// Pixels with zero alpha are never written, so they keep their exact original values.
+const blendPatch = (
+  ctx: CanvasRenderingContext2D,
+  left: number,
+  top: number,
+  generatedPatch: ImageData,
+  alphaAt: (pixelIndex: number) => number
+) => {
+  const { width, height } = generatedPatch;
+  const originalPatch = ctx.getImageData(left, top, width, height);
+  for (let i = 0; i < originalPatch.data.length; i += 4) {
+    const alpha = alphaAt(i / 4) / 255;
+    if (alpha === 0) continue;
+    for (let channel = 0; channel < 3; channel++) {
+      originalPatch.data[i + channel] = Math.round(
+        originalPatch.data[i + channel] * (1 - alpha) + generatedPatch.data[i + channel] * alpha
+      );
+    }
+  }
+  ctx.putImageData(originalPatch, left, top);
+};
+
+const canvasToPngBlob = (canvas: HTMLCanvasElement): Promise<Blob> => new Promise((resolve, reject) => {
+  canvas.toBlob(result => result ? resolve(result) : reject(new Error('Canvas to Blob conversion failed during blending.')), 'image/png');
+});
+
+/**
+ * Paints the edited part of a generated image onto the full-resolution original.
+ * @param originalImage The user's scene photo at its native resolution.
+ * @param generatedImageUrl The model's result, cropped to the photo's aspect ratio (any size).
+ * @param hint Area where the door was placed; changes far outside it are ignored. Without
+ * one, global tone shifts would count as edits, so callers keep the model's output instead.
+ * @returns A PNG at the original's resolution. Pixels outside the edited region are
+ * bit-identical to the decoded original.
+ */
+export const blendIntoOriginal = async (
+  originalImage: File,
+  generatedImageUrl: string,
+  hint: RelativeBox
+): Promise<Blob> => {
+  const [original, generated] = await Promise.all([loadImage(originalImage), loadImage(generatedImageUrl)]);
+  const fullWidth = original.naturalWidth;
+  const fullHeight = original.naturalHeight;
+  const smallWidth = generated.naturalWidth;
+  const smallHeight = generated.naturalHeight;
+
+  // Compare at the generated resolution, against the original scaled the same way the model saw it.
+  const small = createCanvas(smallWidth, smallHeight);
+  small.ctx.drawImage(original, 0, 0, smallWidth, smallHeight);
+  const originalSmall = small.ctx.getImageData(0, 0, smallWidth, smallHeight);
+  small.ctx.drawImage(generated, 0, 0);
+  const generatedSmall = small.ctx.getImageData(0, 0, smallWidth, smallHeight);
+
+  const mask = buildEditMask(originalSmall, generatedSmall, hint);
+
+  const full = createCanvas(fullWidth, fullHeight);
+  full.ctx.drawImage(original, 0, 0);
+
+  const bounds = getMaskBounds(mask, smallWidth, smallHeight);
+  if (bounds) {
+    // Map the edited box to full resolution; only pixels inside it are touched.
+    const scaleX = fullWidth / smallWidth;
+    const scaleY = fullHeight / smallHeight;
+    const left = Math.max(0, Math.floor(bounds.left * scaleX) - 1);
+    const top = Math.max(0, Math.floor(bounds.top * scaleY) - 1);
+    const right = Math.min(fullWidth, Math.ceil(bounds.right * scaleX) + 1);
+    const bottom = Math.min(fullHeight, Math.ceil(bounds.bottom * scaleY) + 1);
+    const width = right - left;
+    const height = bottom - top;
+    const sourceRect = { x: left / scaleX, y: top / scaleY, width: width / scaleX, height: height / scaleY };
+
+    // Upscale the generated pixels and the mask for just that box.
+    const generatedPatch = scaleToPatch(generated, sourceRect, width, height);
+    const maskPatch = scaleToPatch(maskToCanvas(mask, smallWidth, smallHeight), sourceRect, width, height);
+    blendPatch(full.ctx, left, top, generatedPatch, index => maskPatch.data[index * 4 + 3]);
+  }
+
+  return canvasToPngBlob(full.canvas);
+};
+
+/**
+ * Merges a masked edit back into the full-resolution original. The generated
+ * image covers `box` of the original; it is only applied inside `region`, with
+ * an edge that fades out towards the region's border so nothing outside it
+ * changes.
+ * @returns A PNG at the original's resolution.
+ */
+export const mergeMaskedEdit = async (
+  originalImage: File,
+  generatedImageUrl: string,
+  box: PixelBox,
+  region: InpaintRegion
+): Promise<Blob> => {
+  const [original, generated] = await Promise.all([loadImage(originalImage), loadImage(generatedImageUrl)]);
+  const fullWidth = original.naturalWidth;
+  const fullHeight = original.naturalHeight;
+  const smallWidth = generated.naturalWidth;
+  const smallHeight = generated.naturalHeight;
+
+  // The hard-edged region at full resolution bounds the edit exactly.
+  const hard = createCanvas(box.width, box.height);
+  hard.ctx.translate(-box.left, -box.top);
+  drawInpaintRegion(hard.ctx, region, fullWidth, fullHeight);
+  const hardMask = hard.ctx.getImageData(0, 0, box.width, box.height);
+
+  // The feather is computed at the generated resolution, then scaled up.
+  const small = createCanvas(smallWidth, smallHeight);
+  small.ctx.scale(smallWidth / box.width, smallHeight / box.height);
+  small.ctx.translate(-box.left, -box.top);
+  drawInpaintRegion(small.ctx, region, fullWidth, fullHeight);
+  const smallMask = small.ctx.getImageData(0, 0, smallWidth, smallHeight);
+  const coverage = new Float32Array(smallWidth * smallHeight);
+  for (let i = 0; i < coverage.length; i++) coverage[i] = smallMask.data[i * 4 + 3] / 255;
+  const blurred = boxBlur(coverage, smallWidth, smallHeight, Math.max(1, Math.round(Math.min(smallWidth, smallHeight) * FEATHER_FRACTION)));
+  // Keep only the inner half of the blur, so the fade happens inside the region.
+  const feather = blurred.map(value => Math.max(0, value * 2 - 1));
+  const featherPatch = scaleToPatch(maskToCanvas(feather, smallWidth, smallHeight), { x: 0, y: 0, width: smallWidth, height: smallHeight }, box.width, box.height);
+
+  const full = createCanvas(fullWidth, fullHeight);
+  full.ctx.drawImage(original, 0, 0);
+  const generatedPatch = scaleToPatch(generated, { x: 0, y: 0, width: smallWidth, height: smallHeight }, box.width, box.height);
+  blendPatch(full.ctx, box.left, box.top, generatedPatch, index =>
+    Math.min(featherPatch.data[index * 4 + 3], hardMask.data[index * 4 + 3])
+  );
+
+  return canvasToPngBlob(full.canvas);
+};
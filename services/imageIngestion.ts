@@ -0,0 +1,329 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { formatBytes } from './projectStore';
+
+// Every photo the user picks passes through here before the app uses it. The result
+// is always a JPEG or PNG the model accepts, upright, within the size limits, and
+// without location or camera metadata. JPEG and PNG files that need no rotation or
+// resizing are cleaned at the byte level so their pixels are not re-compressed.
+
+export interface IngestionLimits {
+  /** Largest file accepted, in bytes. */
+  maxBytes: number;
+  /** Longer sides above this are scaled down. */
+  maxDimension: number;
+  /** Shorter sides below this are rejected as too small to work with. */
+  minDimension: number;
+}
+
+export const DEFAULT_INGESTION_LIMITS: IngestionLimits = {
+  maxBytes: 30 * 1024 * 1024,
+  maxDimension: 6000,
+  minDimension: 256,
+};
+
+/** A change made to the photo, for display next to the upload. */
+export type IngestionNotice =
+  | { kind: 'converted'; format: string }
+  | { kind: 'rotated' }
+  | { kind: 'scaled'; width: number; height: number; outputWidth: number; outputHeight: number }
+  | { kind: 'location-removed' }
+  | { kind: 'camera-info-removed' };
+
+export interface IngestedImage {
+  file: File;
+  width: number;
+  height: number;
+  notices: IngestionNotice[];
+}
+
+export type IngestionErrorKind = 'too-large' | 'unsupported' | 'heic-unsupported' | 'unreadable' | 'too-small';
+
+/** Values for the user-facing message; which are set depends on the kind. */
+export interface IngestionErrorDetails {
+  fileName?: string;
+  sizeBytes?: number;
+  limitBytes?: number;
+  format?: string;
+  width?: number;
+  height?: number;
+  minDimension?: number;
+}
+
+/** Why a photo was rejected. The message is in English, for logs; the UI words it from the kind and details. */
+export class IngestionError extends Error {
+  readonly kind: IngestionErrorKind;
+  readonly details: IngestionErrorDetails;
+
+  constructor(kind: IngestionErrorKind, message: string, details: IngestionErrorDetails = {}) {
+    super(message);
+    this.name = 'IngestionError';
+    this.kind = kind;
+    this.details = details;
+  }
+}
+
+type SniffedType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/avif' | 'image/heic' | 'image/gif' | 'image/bmp';
+
+interface ImageMetadata {
+  /** EXIF orientation (1 = upright). */
+  orientation: number;
+  hasLocation: boolean;
+  hasCameraInfo: boolean;
+}
+
+const EMPTY_METADATA: ImageMetadata = { orientation: 1, hasLocation: false, hasCameraInfo: false };
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Identifies the format from the file's magic bytes; the browser's `file.type` is often empty or wrong.
+const sniffImageType = (bytes: Uint8Array): SniffedType | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'image/png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+  if (ascii(bytes, 0, 3) === 'GIF') return 'image/gif';
+  if (ascii(bytes, 0, 2) === 'BM') return 'image/bmp';
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+  }
+  return null;
+};
+
+// EXIF tags that identify the camera: Make and Model in the main directory;
+// the body serial number and the lens's specification, make, model and serial
+// number in the EXIF sub-directory.
+const CAMERA_TAGS = new Set([0x010f, 0x0110, 0xa431, 0xa432, 0xa433, 0xa434, 0xa435]);
+const EXIF_IFD_POINTER = 0x8769;
+
+// Reads the few EXIF fields we care about from a TIFF-structured block.
+const readTiffMetadata = (bytes: Uint8Array, start: number): ImageMetadata => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + start, bytes.length - start);
+  const littleEndian = ascii(bytes, start, 2) === 'II';
+  const metadata = { ...EMPTY_METADATA };
+  let exifIfdOffset: number | null = null;
+  const readIfd = (ifdOffset: number) => {
+    const entryCount = view.getUint16(ifdOffset, littleEndian);
+    for (let i = 0; i < entryCount; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      const tag = view.getUint16(entry, littleEndian);
+      if (tag === 0x0112) metadata.orientation = view.getUint16(entry + 8, littleEndian);
+      if (tag === 0x8825) metadata.hasLocation = true;
+      if (tag === EXIF_IFD_POINTER) exifIfdOffset = view.getUint32(entry + 8, littleEndian);
+      if (CAMERA_TAGS.has(tag)) metadata.hasCameraInfo = true;
+    }
+  };
+  readIfd(view.getUint32(4, littleEndian));
+  if (exifIfdOffset !== null && exifIfdOffset < view.byteLength) readIfd(exifIfdOffset);
+  return metadata;
+};
+
+const readTiffMetadataSafely = (bytes: Uint8Array, start: number): ImageMetadata => {
+  try {
+    return readTiffMetadata(bytes, start);
+  } catch (err) {
+    // Malformed EXIF is common enough; treat it as absent rather than rejecting the photo.
+    console.warn('Could not read image metadata:', err);
+    return { ...EMPTY_METADATA };
+  }
+};
+
+// JPEG segments that carry metadata rather than image data: EXIF/XMP (APP1), APP12, IPTC (APP13), comments.
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xec, 0xed, 0xfe]);
+
+/** Walks a JPEG's header segments, returning its metadata and a copy without metadata segments. */
+const processJpeg = (bytes: Uint8Array): { metadata: ImageMetadata; stripped: Uint8Array } => {
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let metadata = { ...EMPTY_METADATA };
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) { // fill byte
+      offset++;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break; // start of scan: the rest is image data
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const segment = bytes.subarray(offset, offset + 2 + length);
+    if (marker === 0xe1 && ascii(bytes, offset + 4, 6) === 'Exif\0\0') {
+      metadata = readTiffMetadataSafely(bytes, offset + 10);
+    }
+    if (!JPEG_METADATA_MARKERS.has(marker)) kept.push(segment);
+    offset += 2 + length;
+  }
+  kept.push(bytes.subarray(offset));
+  return { metadata, stripped: concatBytes(kept) };
+};
+
+// PNG chunks that carry metadata: text, EXIF and the modification time.
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+
+/** Walks a PNG's chunks, returning its metadata and a copy without metadata chunks. */
+const processPng = (bytes: Uint8Array): { metadata: ImageMetadata; stripped: Uint8Array } => {
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  let metadata = { ...EMPTY_METADATA };
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0);
+    const type = ascii(bytes, offset + 4, 4);
+    const chunkEnd = offset + 12 + length;
+    if (type === 'eXIf') {
+      metadata = readTiffMetadataSafely(bytes, offset + 8);
+    }
+    if (!PNG_METADATA_CHUNKS.has(type)) kept.push(bytes.subarray(offset, chunkEnd));
+    offset = chunkEnd;
+    if (type === 'IEND') break;
+  }
+  return { metadata, stripped: concatBytes(kept) };
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const replaceExtension = (fileName: string, extension: string) =>
+  `${fileName.replace(/\.[^.]+$/, '') || 'image'}.${extension}`;
+
+// Draws the decoded (already upright) bitmap at the target size and encodes it.
+// PNG is kept for images with transparency; everything else becomes JPEG.
+const reencode = async (bitmap: ImageBitmap, width: number, height: number, mayHaveAlpha: boolean): Promise<{ blob: Blob; mimeType: string }> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: mayHaveAlpha });
+  if (!ctx) {
+    throw new Error('Could not get canvas context to convert the image.');
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+
+  let hasAlpha = false;
+  if (mayHaveAlpha) {
+    const { data } = ctx.getImageData(0, 0, width, height);
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 255) {
+        hasAlpha = true;
+        break;
+      }
+    }
+  }
+  const mimeType = hasAlpha ? 'image/png' : 'image/jpeg';
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(result => result ? resolve(result) : reject(new Error('Canvas to Blob conversion failed.')), mimeType, 0.95);
+  });
+  return { blob, mimeType };
+};
+
+const FORMAT_NAMES: Record<SniffedType, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/webp': 'WebP',
+  'image/avif': 'AVIF',
+  'image/heic': 'HEIC',
+  'image/gif': 'GIF',
+  'image/bmp': 'BMP',
+};
+
+// Decodes a HEIC photo with libheif (via heic2any). The decoder is large, so it
+// is only loaded the first time a browser cannot open one itself. HEIC stores
+// rotation in the container, and the decoder applies it.
+const decodeHeic = async (file: File): Promise<ImageBitmap> => {
+  let heic2any: typeof import('heic2any').default;
+  try {
+    heic2any = (await import('heic2any')).default;
+  } catch (err) {
+    console.error('Could not load the HEIC decoder:', err);
+    throw new IngestionError('heic-unsupported', 'The HEIC decoder could not be loaded.', { fileName: file.name });
+  }
+  try {
+    const converted = await heic2any({ blob: file, toType: 'image/png' });
+    // Without `multiple` only the primary image comes back.
+    return await createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+  } catch (err) {
+    console.error('Could not decode HEIC image:', err);
+    throw new IngestionError('unreadable', `"${file.name}" could not be read.`, { fileName: file.name, format: FORMAT_NAMES['image/heic'] });
+  }
+};
+
+/**
+ * Validates and normalizes a user-supplied photo.
+ * @throws IngestionError when the file is not a readable image or breaks a limit
+ * that cannot be fixed automatically.
+ */
+export const ingestImage = async (file: File, limits: IngestionLimits = DEFAULT_INGESTION_LIMITS): Promise<IngestedImage> => {
+  if (file.size > limits.maxBytes) {
+    throw new IngestionError('too-large', `"${file.name}" is ${formatBytes(file.size)}; the limit is ${formatBytes(limits.maxBytes)}.`, {
+      fileName: file.name,
+      sizeBytes: file.size,
+      limitBytes: limits.maxBytes,
+    });
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const type = sniffImageType(bytes);
+  if (!type) {
+    throw new IngestionError('unsupported', `"${file.name}" is not a supported image.`, { fileName: file.name });
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (err) {
+    if (type !== 'image/heic') {
+      console.error('Could not decode image:', err);
+      throw new IngestionError('unreadable', `"${file.name}" could not be read.`, { fileName: file.name, format: FORMAT_NAMES[type] });
+    }
+    // Only Safari decodes HEIC natively; elsewhere it goes through the bundled decoder.
+    bitmap = await decodeHeic(file);
+  }
+
+  try {
+    const { width, height } = bitmap;
+    if (Math.min(width, height) < limits.minDimension) {
+      throw new IngestionError('too-small', `The image is ${width} × ${height} px, below the ${limits.minDimension} px minimum.`, {
+        width,
+        height,
+        minDimension: limits.minDimension,
+      });
+    }
+
+    const processed = type === 'image/jpeg' ? processJpeg(bytes) : type === 'image/png' ? processPng(bytes) : null;
+    const metadata = processed?.metadata ?? EMPTY_METADATA;
+    const scale = Math.min(1, limits.maxDimension / Math.max(width, height));
+    const notices: IngestionNotice[] = [];
+
+    let output: File;
+    let outputWidth = width;
+    let outputHeight = height;
+    if (processed && scale === 1 && metadata.orientation === 1) {
+      // Already upright and within limits: only the metadata needs to go.
+      output = new File([processed.stripped], file.name, { type, lastModified: Date.now() });
+    } else {
+      outputWidth = Math.round(width * scale);
+      outputHeight = Math.round(height * scale);
+      const mayHaveAlpha = type !== 'image/jpeg' && type !== 'image/heic';
+      const { blob, mimeType } = await reencode(bitmap, outputWidth, outputHeight, mayHaveAlpha);
+      output = new File([blob], replaceExtension(file.name, mimeType === 'image/png' ? 'png' : 'jpg'), { type: mimeType, lastModified: Date.now() });
+      if (!processed) notices.push({ kind: 'converted', format: FORMAT_NAMES[type] });
+      if (metadata.orientation !== 1) notices.push({ kind: 'rotated' });
+      if (scale < 1) notices.push({ kind: 'scaled', width, height, outputWidth, outputHeight });
+    }
+
+    if (metadata.hasLocation) notices.push({ kind: 'location-removed' });
+    if (metadata.hasCameraInfo) notices.push({ kind: 'camera-info-removed' });
+    return { file: output, width: outputWidth, height: outputHeight, notices };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Shared image helpers used by the generation pipeline and the providers.
+
+// Helper to convert File to a data URL string
+export const fileToDataUrl = (file: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+};
+
+// Helper to convert a data URL string to a Blob
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const bstr = atob(arr[1]);
+    const u8arr = new Uint8Array(bstr.length);
+    for (let i = 0; i < bstr.length; i++) {
+        u8arr[i] = bstr.charCodeAt(i);
+    }
+    return new Blob([u8arr], { type: mimeMatch[1] });
+};
+
+// Helper function to convert a File object to a Gemini API Part
+export const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+    const dataUrl = await fileToDataUrl(file);
+    
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+    
+    const mimeType = mimeMatch[1];
+    const data = arr[1];
+    return { inlineData: { mimeType, data } };
+};
+
+// Helper to load an HTMLImageElement from a URL or File
+export const loadImage = async (source: string | Blob): Promise<HTMLImageElement> => {
+    const src = typeof source === 'string' ? source : await fileToDataUrl(source);
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = (err) => reject(new Error(`Image load error: ${err}`));
+        img.src = src;
+    });
+};
+
+// Calculates where an image of the given size sits inside a padded square of
+// `targetDimension`, as produced by `resizeImage` in the generation service.
+export const getContentRect = (
+    originalWidth: number,
+    originalHeight: number,
+    targetDimension: number
+): { x: number; y: number; width: number; height: number } => {
+    const aspectRatio = originalWidth / originalHeight;
+    let width, height;
+    if (aspectRatio > 1) { // Landscape
+        width = targetDimension;
+        height = targetDimension / aspectRatio;
+    } else { // Portrait or square
+        height = targetDimension;
+        width = targetDimension * aspectRatio;
+    }
+    return {
+        x: (targetDimension - width) / 2,
+        y: (targetDimension - height) / 2,
+        width,
+        height,
+    };
+};
+
+// Calculates where an `object-contain` image is drawn inside its container, in container pixels.
+export const getContainedImageRect = (
+    naturalWidth: number,
+    naturalHeight: number,
+    containerWidth: number,
+    containerHeight: number
+): { x: number; y: number; width: number; height: number } => {
+    const imageAspectRatio = naturalWidth / naturalHeight;
+    const containerAspectRatio = containerWidth / containerHeight;
+
+    let width, height;
+    if (imageAspectRatio > containerAspectRatio) {
+        width = containerWidth;
+        height = containerWidth / imageAspectRatio;
+    } else {
+        height = containerHeight;
+        width = containerHeight * imageAspectRatio;
+    }
+    return {
+        x: (containerWidth - width) / 2,
+        y: (containerHeight - height) / 2,
+        width,
+        height,
+    };
+};
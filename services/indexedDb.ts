@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The small amount of IndexedDB plumbing shared by the project store and the
+// generation cache: opening a database once, and running one transaction as a
+// promise.
+
+export interface IndexedDbOptions<K extends string> {
+  name: string;
+  version: number;
+  /** Used in error messages, e.g. "project database". */
+  description: string;
+  /** The stores every transaction opens, by the names the callbacks use for them. */
+  stores: Record<K, string>;
+  /** Creates the stores and indexes the version needs. */
+  upgrade: (db: IDBDatabase) => void;
+}
+
+export type WithStores<K extends string> = <T>(
+  mode: IDBTransactionMode,
+  run: (stores: Record<K, IDBObjectStore>) => IDBRequest<T> | void
+) => Promise<T | undefined>;
+
+/**
+ * Returns a function that wraps one transaction over the database's stores.
+ * The database is opened on first use; a failed open is retried next time.
+ * The returned promise resolves with the callback's request result once the
+ * transaction commits.
+ */
+export const createWithStores = <K extends string>({ name, version, description, stores, upgrade }: IndexedDbOptions<K>): WithStores<K> => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(new Error(`Could not open the ${description}: ${request.error?.message}`));
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  const keys = Object.keys(stores) as K[];
+  return async (mode, run) => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(keys.map(key => stores[key]), mode);
+      const objectStores = Object.fromEntries(keys.map(key => [key, transaction.objectStore(stores[key])])) as Record<K, IDBObjectStore>;
+      const request = run(objectStores);
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(new Error(`Error in the ${description}: ${transaction.error?.message}`));
+      transaction.onabort = () => reject(new Error(`Error in the ${description}: ${transaction.error?.message ?? 'transaction aborted'}`));
+    });
+  };
+};
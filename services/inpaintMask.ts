@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BrushStroke, ExpectedDoorSize, InpaintRegion, PlacementQuad, RelativePoint } from '../types';
+
+/** Radius of the circle around a placement point when there is nothing to size it by. */
+export const DEFAULT_INPAINT_RADIUS_PERCENT = 20;
+
+// With a calibrated door size, the circle is this much larger than half the door's longer side.
+const EXPECTED_SIZE_RADIUS_FACTOR = 0.75;
+
+export interface PixelBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Builds the region a masked generation may edit. An outline wins over the
+ * point; otherwise a circle is sized from the calibrated door size if known.
+ */
+export const createInpaintRegion = (
+  point: RelativePoint,
+  quad: PlacementQuad | undefined,
+  strokes: BrushStroke[],
+  expectedDoorSize?: ExpectedDoorSize,
+  imageSize?: { width: number; height: number }
+): InpaintRegion => {
+  if (quad) {
+    return { base: { kind: 'quad', quad }, strokes };
+  }
+  let radiusPercent = DEFAULT_INPAINT_RADIUS_PERCENT;
+  if (expectedDoorSize && imageSize) {
+    const shorterSide = Math.min(imageSize.width, imageSize.height);
+    const longerDoorSide = Math.max(expectedDoorSize.widthPx, expectedDoorSize.heightPx);
+    radiusPercent = (longerDoorSide * EXPECTED_SIZE_RADIUS_FACTOR / shorterSide) * 100;
+  }
+  return { base: { kind: 'circle', center: point, radiusPercent }, strokes };
+};
+
+/**
+ * Fills the region in white on a context whose coordinate space is an image of
+ * the given size. Callers translate or scale the context to render a crop.
+ */
+export const drawInpaintRegion = (
+  ctx: CanvasRenderingContext2D,
+  region: InpaintRegion,
+  imageWidth: number,
+  imageHeight: number
+) => {
+  const shorterSide = Math.min(imageWidth, imageHeight);
+  const toPixels = (point: RelativePoint) => ({
+    x: (point.xPercent / 100) * imageWidth,
+    y: (point.yPercent / 100) * imageHeight,
+  });
+
+  ctx.save();
+  ctx.fillStyle = 'white';
+  ctx.strokeStyle = 'white';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  const { base } = region;
+  ctx.beginPath();
+  if (base.kind === 'quad') {
+    base.quad.map(toPixels).forEach(({ x, y }, index) => index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+    ctx.closePath();
+  } else {
+    const { x, y } = toPixels(base.center);
+    ctx.arc(x, y, (base.radiusPercent / 100) * shorterSide, 0, 2 * Math.PI);
+  }
+  ctx.fill();
+
+  region.strokes.forEach(stroke => {
+    const radius = (stroke.radiusPercent / 100) * shorterSide;
+    const points = stroke.points.map(toPixels);
+    if (points.length === 1) {
+      ctx.beginPath();
+      ctx.arc(points[0].x, points[0].y, radius, 0, 2 * Math.PI);
+      ctx.fill();
+      return;
+    }
+    ctx.lineWidth = radius * 2;
+    ctx.beginPath();
+    points.forEach(({ x, y }, index) => index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+/** Pixel bounding box of the region on an image of the given size, clamped to the image. */
+export const getInpaintRegionBounds = (region: InpaintRegion, imageWidth: number, imageHeight: number): PixelBox => {
+  const shorterSide = Math.min(imageWidth, imageHeight);
+  const extents: { x: number; y: number; radius: number }[] = [];
+  const { base } = region;
+  if (base.kind === 'quad') {
+    base.quad.forEach(corner => extents.push({ x: corner.xPercent, y: corner.yPercent, radius: 0 }));
+  } else {
+    extents.push({ x: base.center.xPercent, y: base.center.yPercent, radius: base.radiusPercent });
+  }
+  region.strokes.forEach(stroke => {
+    stroke.points.forEach(point => extents.push({ x: point.xPercent, y: point.yPercent, radius: stroke.radiusPercent }));
+  });
+
+  let left = imageWidth, top = imageHeight, right = 0, bottom = 0;
+  extents.forEach(({ x, y, radius }) => {
+    const px = (x / 100) * imageWidth;
+    const py = (y / 100) * imageHeight;
+    const r = (radius / 100) * shorterSide;
+    left = Math.min(left, px - r);
+    top = Math.min(top, py - r);
+    right = Math.max(right, px + r);
+    bottom = Math.max(bottom, py + r);
+  });
+  left = Math.max(0, Math.floor(left));
+  top = Math.max(0, Math.floor(top));
+  right = Math.min(imageWidth, Math.ceil(right));
+  bottom = Math.min(imageHeight, Math.ceil(bottom));
+  return { left, top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) };
+};
+
+/** Grows a box by a fraction of its longer side on every edge, clamped to the image. */
+export const expandBox = (box: PixelBox, fraction: number, imageWidth: number, imageHeight: number): PixelBox => {
+  const margin = Math.round(Math.max(box.width, box.height) * fraction);
+  const left = Math.max(0, box.left - margin);
+  const top = Math.max(0, box.top - margin);
+  const right = Math.min(imageWidth, box.left + box.width + margin);
+  const bottom = Math.min(imageHeight, box.top + box.height + margin);
+  return { left, top, width: right - left, height: bottom - top };
+};
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PlacementQuad, RelativePoint } from '../types';
+
+/**
+ * A door-shaped starting outline centred on `center`, sized as a share of the
+ * photo. Users then drag the corners onto the real opening.
+ */
+export const createDefaultQuad = (
+  center: RelativePoint = { xPercent: 50, yPercent: 55 },
+  size: { widthPercent: number; heightPercent: number } = { widthPercent: 20, heightPercent: 50 }
+): PlacementQuad => {
+  const halfWidth = size.widthPercent / 2;
+  const halfHeight = size.heightPercent / 2;
+  const clamp = (value: number, half: number) => Math.min(100 - half, Math.max(half, value));
+  const cx = clamp(center.xPercent, halfWidth);
+  const cy = clamp(center.yPercent, halfHeight);
+  return [
+    { xPercent: cx - halfWidth, yPercent: cy - halfHeight },
+    { xPercent: cx + halfWidth, yPercent: cy - halfHeight },
+    { xPercent: cx + halfWidth, yPercent: cy + halfHeight },
+    { xPercent: cx - halfWidth, yPercent: cy + halfHeight },
+  ];
+};
+
+export const getQuadCentroid = (quad: PlacementQuad): RelativePoint => ({
+  xPercent: quad.reduce((sum, p) => sum + p.xPercent, 0) / quad.length,
+  yPercent: quad.reduce((sum, p) => sum + p.yPercent, 0) / quad.length,
+});
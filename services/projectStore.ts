@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CustomDoor, Door } from '../types';
+import { SceneHistoryState } from './sceneHistory';
+import { createWithStores } from './indexedDb';
+
+const DB_NAME = 'atak-door-visualizer';
+const DB_VERSION = 1;
+// Full records (with image blobs) and lightweight metadata are kept apart so
+// the project list can be shown without reading every image.
+const PROJECTS_STORE = 'projects';
+const META_STORE = 'projectMeta';
+const LAST_PROJECT_KEY = 'atak:lastProjectId';
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Total size of the images stored with the project, in bytes. */
+  sizeBytes: number;
+}
+
+export interface ProjectData {
+  selectedDoor: Door | null;
+  /** Finish of the selected door; `doorImage` is already in this finish. */
+  selectedFinishId?: string | null;
+  doorImage: File | null;
+  customDoors: CustomDoor[];
+  sceneHistory: SceneHistoryState;
+}
+
+export interface ProjectRecord extends ProjectData {
+  id: string;
+}
+
+const withStores = createWithStores({
+  name: DB_NAME,
+  version: DB_VERSION,
+  description: 'project database',
+  stores: { projects: PROJECTS_STORE, meta: META_STORE },
+  upgrade: db => {
+    if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+  },
+});
+
+let idCounter = 0;
+export const createProjectId = () => `project-${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+const getProjectSize = (data: ProjectData): number => {
+  const versionBytes = data.sceneHistory.versions.reduce((sum, version) => sum + version.file.size, 0);
+  const customDoorBytes = data.customDoors.reduce((sum, customDoor) => sum + customDoor.file.size, 0);
+  return versionBytes + customDoorBytes + (data.doorImage?.size ?? 0);
+};
+
+export const listProjects = async (): Promise<ProjectMeta[]> => {
+  const metas = await withStores<ProjectMeta[]>('readonly', ({ meta }) => meta.getAll());
+  return (metas ?? []).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProjectMeta = async (id: string): Promise<ProjectMeta | null> => {
+  const meta = await withStores<ProjectMeta>('readonly', ({ meta }) => meta.get(id));
+  return meta ?? null;
+};
+
+export const loadProject = async (id: string): Promise<ProjectRecord | null> => {
+  const record = await withStores<ProjectRecord>('readonly', ({ projects }) => projects.get(id));
+  return record ?? null;
+};
+
+/**
+ * Saves the project's data, creating it (with `name`) if it does not exist yet.
+ * Returns the updated metadata.
+ */
+export const saveProject = async (id: string, name: string, data: ProjectData): Promise<ProjectMeta> => {
+  const existing = await getProjectMeta(id);
+  const now = Date.now();
+  const meta: ProjectMeta = {
+    id,
+    name: existing?.name ?? name,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    sizeBytes: getProjectSize(data),
+  };
+  await withStores('readwrite', ({ projects, meta: metaStore }) => {
+    projects.put({ id, ...data });
+    metaStore.put(meta);
+  });
+  return meta;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const existing = await getProjectMeta(id);
+  if (!existing) return;
+  await withStores('readwrite', ({ meta }) => {
+    meta.put({ ...existing, name });
+  });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStores('readwrite', ({ projects, meta }) => {
+    projects.delete(id);
+    meta.delete(id);
+  });
+  if (getLastProjectId() === id) setLastProjectId(null);
+};
+
+/** Browser-wide storage usage for this origin, when the browser reports it. */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string | null) => {
+  if (id) localStorage.setItem(LAST_PROJECT_KEY, id);
+  else localStorage.removeItem(LAST_PROJECT_KEY);
+};
+
+/** @param intlLocale The Intl locale to write the size in, e.g. 'fa-IR' for Persian digits. */
+export const formatBytes = (bytes: number, intlLocale = 'en-US'): string => {
+  const format = (value: number, fractionDigits: number) =>
+    new Intl.NumberFormat(intlLocale, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }).format(value);
+  if (bytes < 1024) return `${format(bytes, 0)} B`;
+  if (bytes < 1024 * 1024) return `${format(bytes / 1024, 1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${format(bytes / (1024 * 1024), 1)} MB`;
+  return `${format(bytes / (1024 * 1024 * 1024), 2)} GB`;
+};
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PlacementMode } from '../../types';
+import { describeDoorConfigurationForPrompt } from '../doorSpecs';
+import { CompositePromptVariables, PromptTemplate } from './types';
+
+// Describes quad corners (0-1 fractions of the padded square) for the prompt.
+const formatQuadForPrompt = (corners: { x: number; y: number }[]): string => {
+  const names = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+  return corners
+    .map(({ x, y }, index) => `${names[index]} (${(x * 100).toFixed(1)}%, ${(y * 100).toFixed(1)}%)`)
+    .join(', ');
+};
+
+// How the door goes into the scene in each placement mode.
+const modeInstructions: Record<PlacementMode, string> = {
+  'replace-existing': `There is an existing door at the marked location. Remove it completely, including its leaf, handle and hinges, and install the new door in its place. No part of the old door may remain visible, and there must be exactly one door at this location. Keep the existing frame and casing unless the new door needs a different size, in which case rebuild them to match the room's trim.`,
+  'cut-into-wall': `The marked location is a plain wall with no opening. Cut a new doorway into the wall and install the new door in it, with a frame and casing that match the room's existing trim. Interrupt the skirting board at the opening and keep the rest of the wall, and everything on it, unchanged.`,
+  'fill-opening': `The marked location is an empty doorway. Fit the new door into the existing opening, hinged on one of its jambs, with its bottom edge on the threshold. Do not change the size or position of the opening or its frame.`,
+};
+
+// Door-specific prompt shared by versions 2 and later; `configurationSection` is inserted
+// after the installation instructions and is empty in version 2.
+const renderDoorInstallPrompt = (
+  { doorSpecs, locationDescription, expectedSize, outlineCorners, hasMask, placementMode }: CompositePromptVariables,
+  configurationSection: string
+) => `
+**Role:**
+You are an architectural visualisation expert. Your task is to take a 'door' image and install the door in a 'scene' image, adjusting for perspective, lighting, and scale.
+
+**Specifications:**
+-   **Door to install:**
+    The first image provided. It may be surrounded by black padding or background, which you should ignore and treat as transparent and only keep the door.
+    **Door details:**
+${doorSpecs.split('\n').map(line => `    ${line}`).join('\n')}
+-   **Scene to use:**
+    The second image provided. It may also be surrounded by black padding, which you should ignore.
+-   **How to install the door (Crucial):**
+    -   ${modeInstructions[placementMode]}
+    -   A door always stands upright in the plane of a wall, with its bottom edge on the floor. Never lay it on the floor, on furniture or on any other surface.
+${configurationSection}-   **Placement Instruction (Crucial):**
+    -   You must install the door at the location described below exactly. Use this dense, semantic description to find the exact spot in the scene.
+    -   **Door location Description:** "${locationDescription}"
+${expectedSize ? `    -   **Expected size (measured by the user):** The door must appear about ${(expectedSize.width * 100).toFixed(1)}% of the scene image's width wide and ${(expectedSize.height * 100).toFixed(1)}% of its height tall (padding included). This comes from a real-world scale reference in the photo, so follow it closely.
+` : ''}${outlineCorners ? `    -   **Door opening outline (exact):** The door must fill the four-sided area with these corners, given as percentages of the scene image's width and height (padding included): ${formatQuadForPrompt(outlineCorners)}. Align the door's edges with this outline and follow its perspective.
+` : ''}${hasMask ? `-   **Editable area (mask):**
+    The third image provided is a black-and-white mask aligned with the scene. Only change pixels inside its white area. Everything in the black area must stay exactly as it is in the scene: do not move, recolour or re-render it.
+` : ''}-   **Final Image Requirements:**
+    -   The output image's style, lighting, shadows, reflections, and camera perspective must exactly match the original scene.
+    -   Do not just copy and paste the door. You must intelligently re-render it to fit the context. Follow the wall's perspective, scale the door appropriately, and ensure it casts realistic shadows according to the scene's light sources.
+    -   The door must have proportional realism against the surrounding furniture, windows and ceiling height. When the door details give real dimensions, scale it to match them.
+    -   You must not return the original scene image without the door. The door must be always present in the composite image.
+
+The output should ONLY be the final, composed image. Do not add any text or explanation.
+`;
+
+export const compositeTemplates: PromptTemplate<CompositePromptVariables>[] = [
+  {
+    version: 1,
+    notes: 'Product and scene specifications with optional size, outline and mask instructions.',
+    render: ({ doorSpecs, locationDescription, expectedSize, outlineCorners, hasMask }) => `
+**Role:**
+You are a visual composition expert. Your task is to take a 'product' image and seamlessly integrate it into a 'scene' image, adjusting for perspective, lighting, and scale.
+
+**Specifications:**
+-   **Product to add:**
+    The first image provided. It may be surrounded by black padding or background, which you should ignore and treat as transparent and only keep the product.
+    **Product details:**
+${doorSpecs.split('\n').map(line => `    ${line}`).join('\n')}
+-   **Scene to use:**
+    The second image provided. It may also be surrounded by black padding, which you should ignore.
+-   **Placement Instruction (Crucial):**
+    -   You must place the product at the location described below exactly. You should only place the product once. Use this dense, semantic description to find the exact spot in the scene.
+    -   **Product location Description:** "${locationDescription}"
+${expectedSize ? `    -   **Expected size (measured by the user):** The door must appear about ${(expectedSize.width * 100).toFixed(1)}% of the scene image's width wide and ${(expectedSize.height * 100).toFixed(1)}% of its height tall (padding included). This comes from a real-world scale reference in the photo, so follow it closely.
+` : ''}${outlineCorners ? `    -   **Door opening outline (exact):** The door must fill the four-sided area with these corners, given as percentages of the scene image's width and height (padding included): ${formatQuadForPrompt(outlineCorners)}. Align the door's edges with this outline and follow its perspective.
+` : ''}${hasMask ? `-   **Editable area (mask):**
+    The third image provided is a black-and-white mask aligned with the scene. Only change pixels inside its white area. Everything in the black area must stay exactly as it is in the scene: do not move, recolour or re-render it.
+` : ''}-   **Final Image Requirements:**
+    -   The output image's style, lighting, shadows, reflections, and camera perspective must exactly match the original scene.
+    -   Do not just copy and paste the product. You must intelligently re-render it to fit the context. Adjust the product's perspective and orientation to its most natural position, scale it appropriately, and ensure it casts realistic shadows according to the scene's light sources.
+    -   The product must have proportional realism. For example, a lamp product can't be bigger than a sofa in scene. When the product details give real dimensions, scale the product to match them against the surroundings.
+    -   You must not return the original scene image without product placement. The product must be always present in the composite image.
+
+The output should ONLY be the final, composed image. Do not add any text or explanation.
+`,
+  },
+  {
+    version: 2,
+    notes: 'Treats the product as a door and adds instructions for the placement mode (replace, cut into wall, fill opening).',
+    render: variables => renderDoorInstallPrompt(variables, ''),
+  },
+  {
+    version: 3,
+    notes: 'Adds the ordered configuration: hinge side, swing, open state, handle and glazing.',
+    render: variables => renderDoorInstallPrompt(
+      variables,
+      variables.doorConfiguration
+        ? `-   **Door configuration (follow exactly, it is what the customer orders):**
+${describeDoorConfigurationForPrompt(variables.doorConfiguration).split('\n').map(line => `    -   ${line}`).join('\n')}
+`
+        : ''
+    ),
+  },
+];
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PlacementMode } from '../../types';
+import { DescribeLocationPromptVariables, PromptTemplate } from './types';
+
+// What the description must capture for each placement mode, so the composite step knows what to change.
+const modeFocus: Record<PlacementMode, string> = {
+  'replace-existing': `There is an existing door at the marked spot that will be replaced. Describe that door precisely: its colour, material, panels, glazing, handle and hinges, which way it opens, and the exact extent of its frame and casing, so every part of it can be removed.`,
+  'cut-into-wall': `The marked spot is a plain wall where a new doorway will be cut. Describe the wall surface (material, colour, texture), the skirting board and where the wall meets the floor, and anything on or against the wall nearby (switches, outlets, pictures, furniture) that a new doorway would have to respect.`,
+  'fill-opening': `The marked spot is an empty doorway that will receive a door. Describe the opening: its frame, jambs, head and threshold, their material and colour, and what is visible through the opening.`,
+};
+
+export const describeLocationTemplates: PromptTemplate<DescribeLocationPromptVariables>[] = [
+  {
+    version: 1,
+    notes: 'Dense semantic description plus a rough position relative to the image.',
+    render: ({ hasOutline }) => {
+      const markerInstruction = hasOutline
+        ? `I will provide you with an image that has a red four-sided outline on it, marking a door opening.
+Your task is to provide a very dense, semantic description of what is inside and directly around the red outline (for example an existing door, a door frame, or a plain wall).`
+        : `I will provide you with an image that has a red marker on it.
+Your task is to provide a very dense, semantic description of what is at the exact location of the red marker.`;
+
+      return `
+You are an expert scene analyst. ${markerInstruction}
+Be specific about surfaces, objects, and spatial relationships. This description will be used to guide another AI in placing a new object.
+
+Example semantic descriptions:
+- "The product location is on the dark grey fabric of the sofa cushion, in the middle section, slightly to the left of the white throw pillow."
+- "The product location is on the light-colored wooden floor, in the patch of sunlight coming from the window, about a foot away from the leg of the brown leather armchair."
+- "The product location is on the white marble countertop, just to the right of the stainless steel sink and behind the green potted plant."
+
+On top of the semantic description above, give a rough relative-to-image description.
+
+Example relative-to-image descriptions:
+- "The product location is about 10% away from the bottom-left of the image."
+- "The product location is about 20% away from the right of the image."
+
+Provide only the two descriptions concatenated in a few sentences.
+`;
+    },
+  },
+  {
+    version: 2,
+    notes: 'Describes what the placement mode needs: the door being replaced, the wall to cut into, or the empty opening.',
+    render: ({ hasOutline, placementMode }) => {
+      const markerInstruction = hasOutline
+        ? 'I will provide you with an image that has a red four-sided outline on it, marking where a door will go.'
+        : 'I will provide you with an image that has a red marker on it, marking where a door will go.';
+
+      return `
+You are an expert scene analyst. ${markerInstruction}
+${modeFocus[placementMode]}
+Be specific about surfaces, objects, and spatial relationships. This description will be used to guide another AI in installing the new door.
+
+Example semantic descriptions:
+- "The door location is a white-painted four-panel door with a brass lever handle, hinged on the left, set in a white timber frame in the middle of the back wall, to the right of the bookshelf."
+- "The door location is a smooth light-grey plastered wall above a white skirting board, between the window on the left and the radiator on the right, with a light switch about a hand's width from the right edge of the marker."
+- "The door location is an empty doorway with a dark oak frame and a stone threshold, leading to a hallway with a patterned runner."
+
+On top of the semantic description above, give a rough relative-to-image description.
+
+Example relative-to-image descriptions:
+- "The door location is about 10% away from the bottom-left of the image."
+- "The door location is about 20% away from the right of the image."
+
+Provide only the two descriptions concatenated in a few sentences.
+`;
+    },
+  },
+];
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { compositeTemplates } from './composite';
+import { describeLocationTemplates } from './describeLocation';
+import { CompositePromptVariables, DescribeLocationPromptVariables, PromptTemplate } from './types';
+
+export type { PromptTemplate, CompositePromptVariables, DescribeLocationPromptVariables } from './types';
+
+interface PromptVariablesByName {
+  'describe-location': DescribeLocationPromptVariables;
+  composite: CompositePromptVariables;
+}
+
+export type PromptTemplateName = keyof PromptVariablesByName;
+
+const promptTemplates: { [Name in PromptTemplateName]: PromptTemplate<PromptVariablesByName[Name]>[] } = {
+  'describe-location': describeLocationTemplates,
+  composite: compositeTemplates,
+};
+
+export interface RenderedPrompt {
+  text: string;
+  /** The template that produced `text`, as `name@version`. */
+  templateId: string;
+}
+
+// Reads version pins such as "composite=1,describe-location=2" from the `PROMPT_VERSIONS` setting.
+const parsePinnedVersions = (setting: string | undefined): Partial<Record<PromptTemplateName, number>> => {
+  const pins: Partial<Record<PromptTemplateName, number>> = {};
+  setting?.split(',').forEach(entry => {
+    const [name, version] = entry.split('=').map(part => part.trim());
+    // Own keys only, so "constructor=1" is not taken for a template; and a whole
+    // number, since Number('') would read an empty version as 0.
+    if (Object.hasOwn(promptTemplates, name) && /^\d+$/.test(version ?? '')) {
+      pins[name as PromptTemplateName] = Number(version);
+    } else if (entry.trim()) {
+      console.warn(`Ignoring invalid prompt version pin "${entry}".`);
+    }
+  });
+  return pins;
+};
+
+const pinnedVersions = parsePinnedVersions(process.env.PROMPT_VERSIONS);
+
+/**
+ * Returns the version of a template to use: the one pinned by `PROMPT_VERSIONS`
+ * (see vite.config.ts), or else the latest.
+ */
+export const getPromptTemplate = <Name extends PromptTemplateName>(name: Name): PromptTemplate<PromptVariablesByName[Name]> => {
+  const versions: PromptTemplate<PromptVariablesByName[Name]>[] = promptTemplates[name];
+  const pinned = pinnedVersions[name];
+  const pinnedTemplate = pinned !== undefined ? versions.find(template => template.version === pinned) : undefined;
+  if (pinned !== undefined && !pinnedTemplate) {
+    console.warn(`Prompt "${name}" has no version ${pinned}, using the latest.`);
+  }
+  return pinnedTemplate ?? versions.reduce((latest, template) => template.version > latest.version ? template : latest);
+};
+
+/** Renders the active version of a template with its variables. */
+export const renderPrompt = <Name extends PromptTemplateName>(name: Name, variables: PromptVariablesByName[Name]): RenderedPrompt => {
+  const template = getPromptTemplate(name);
+  return { text: template.render(variables), templateId: `${name}@${template.version}` };
+};
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DoorConfiguration, PlacementMode } from '../../types';
+
+/**
+ * One version of a prompt. Published versions are never edited: a change to
+ * the wording is a new entry with the next version number, so every stored
+ * result can be traced back to the exact text that produced it.
+ */
+export interface PromptTemplate<TVariables> {
+  version: number;
+  /** What changed compared with the previous version. */
+  notes: string;
+  render: (variables: TVariables) => string;
+}
+
+/** Variables for the describe-location prompt. */
+export interface DescribeLocationPromptVariables {
+  /** Whether the marked image shows a four-sided outline rather than a single marker. */
+  hasOutline: boolean;
+  placementMode: PlacementMode;
+}
+
+/** Variables for the composite prompt. */
+export interface CompositePromptVariables {
+  /** Door details, one per line, e.g. from `describeDoorForPrompt`. */
+  doorSpecs: string;
+  /** Result of the describe step, or a generic fallback. */
+  locationDescription: string;
+  /** Calibrated door size, as 0-1 fractions of the padded square scene image. */
+  expectedSize?: { width: number; height: number };
+  /** Corners of the door opening (top-left, top-right, bottom-right, bottom-left), in the same units. */
+  outlineCorners?: { x: number; y: number }[];
+  /** Whether a mask of the editable area is sent as the third image. */
+  hasMask: boolean;
+  placementMode: PlacementMode;
+  /** Hinge, swing, state and hardware chosen for the door. */
+  doorConfiguration?: DoorConfiguration;
+}
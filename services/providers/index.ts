@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { ImageGenerationProvider } from './types';
+
+export type { ImageGenerationProvider, GeneratedImage, DescribeLocationRequest, CompositeRequest } from './types';
+
+export type ProviderId = 'proxy' | 'mock';
+
+const providerFactories: Record<ProviderId, () => ImageGenerationProvider> = {
+  proxy: () => createProxyProvider(),
+  mock: () => createMockProvider(),
+};
+
+const providerCache = new Map<ProviderId, ImageGenerationProvider>();
+
+/**
+ * Returns the provider named by the `IMAGE_PROVIDER` setting (see vite.config.ts),
+ * falling back to the generation server.
+ */
+export const getImageProvider = (id: string | undefined = process.env.IMAGE_PROVIDER): ImageGenerationProvider => {
+  const providerId: ProviderId = id && id in providerFactories ? id as ProviderId : 'proxy';
+  if (id && providerId !== id) {
+    console.warn(`Unknown image provider "${id}", falling back to "${providerId}".`);
+  }
+  let provider = providerCache.get(providerId);
+  if (!provider) {
+    provider = providerFactories[providerId]();
+    providerCache.set(providerId, provider);
+  }
+  return provider;
+};
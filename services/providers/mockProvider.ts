@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage } from '../imageUtils';
+import { ImageGenerationProvider } from './types';
+
+// Fraction of the scene height the pasted door occupies.
+const DOOR_HEIGHT_RATIO = 0.45;
+// Scale steps for successive candidates, so a multi-candidate gallery shows variation.
+const CANDIDATE_SCALES = [1, 0.9, 1.1, 0.95, 1.05];
+// Channel value below which a pixel counts as the black padding (JPEG leaves it slightly noisy).
+const PADDING_THRESHOLD = 24;
+
+interface Rect { x: number; y: number; width: number; height: number }
+
+// The product arrives centred in a black square; finds the box of rows and
+// columns that hold anything brighter than the padding.
+const findContentRect = (image: HTMLImageElement): Rect => {
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const full = { x: 0, y: 0, width, height };
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return full;
+  ctx.drawImage(image, 0, 0);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (Math.max(data[i], data[i + 1], data[i + 2]) > PADDING_THRESHOLD) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  return maxX < 0 ? full : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Offline provider that needs no network or API key. It pastes the product
+ * onto the scene with plain canvas drawing, so the same inputs always give the
+ * same output. Use it to develop and demo the placement flow without quota.
+ */
+export const createMockProvider = (): ImageGenerationProvider => ({
+  id: 'mock',
+  models: { describe: 'mock-describe', composite: 'mock-composite' },
+
+  async describeLocation({ placement }) {
+    const x = Math.round(placement.x * 100);
+    const y = Math.round(placement.y * 100);
+    return `The product location is at the marked spot, about ${x}% from the left and ${y}% from the top of the image.`;
+  },
+
+  async generateComposite({ productImage, sceneImage, placement, quad, expectedSize, candidateIndex = 0 }) {
+    const [product, scene] = await Promise.all([loadImage(productImage), loadImage(sceneImage)]);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = scene.naturalWidth;
+    canvas.height = scene.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get canvas context for mock composite.');
+    }
+    ctx.drawImage(scene, 0, 0);
+
+    // The product arrives padded to a square, so scale the whole square and
+    // centre it on the placement point, or fit its height to the outline's bounding box.
+    let size = canvas.height * (expectedSize?.height ?? DOOR_HEIGHT_RATIO);
+    let left = placement.x * canvas.width - size / 2;
+    let top = placement.y * canvas.height - size / 2;
+    if (quad) {
+      const xs = quad.map(p => p.x * canvas.width);
+      const ys = quad.map(p => p.y * canvas.height);
+      size = Math.max(...ys) - Math.min(...ys);
+      left = (Math.min(...xs) + Math.max(...xs)) / 2 - size / 2;
+      top = Math.min(...ys);
+    }
+    const scale = CANDIDATE_SCALES[candidateIndex % CANDIDATE_SCALES.length];
+    left += (size - size * scale) / 2;
+    top += size - size * scale; // keep the bottom edge on the floor line
+    size *= scale;
+
+    // Draw only the product, not its padding, where it sits within the scaled square.
+    const content = findContentRect(product);
+    const unit = size / product.naturalWidth;
+    ctx.save();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+    ctx.shadowBlur = size * 0.05;
+    ctx.shadowOffsetX = size * 0.02;
+    ctx.shadowOffsetY = size * 0.02;
+    ctx.drawImage(
+      product,
+      content.x, content.y, content.width, content.height,
+      left + content.x * unit, top + content.y * unit, content.width * unit, content.height * unit
+    );
+    ctx.restore();
+
+    const dataUrl = canvas.toDataURL('image/jpeg', 0.95);
+    return { mimeType: 'image/jpeg', data: dataUrl.split(',')[1] };
+  },
+});
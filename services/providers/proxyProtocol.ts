@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The contract between the proxy provider in the browser and the generation
+// server in `server/`. Both sides import it, so keep it free of DOM and Node APIs.
+
+import { GenerationErrorKind } from '../generationErrors';
+import { GeneratedImage } from './types';
+
+export const GENERATE_PATH = '/api/generate';
+
+/** The Gemini models the server calls for each step. */
+export const PROXY_MODELS = {
+  describe: 'gemini-2.5-flash-lite',
+  composite: 'gemini-2.5-flash-image',
+};
+
+export type ProxyStep = keyof typeof PROXY_MODELS;
+
+/**
+ * Body of a generation request. Images are base64 without a data URL prefix:
+ * one marked scene for `describe`; the product, the scene and an optional mask,
+ * in that order, for `composite`.
+ */
+export interface ProxyGenerateRequest {
+  step: ProxyStep;
+  prompt: string;
+  images: GeneratedImage[];
+}
+
+export type ProxyGenerateResponse =
+  | { step: 'describe'; text: string }
+  | { step: 'composite'; image: GeneratedImage | null };
+
+/** Body of every non-2xx response. */
+export interface ProxyErrorResponse {
+  error: { kind: GenerationErrorKind; message: string };
+}
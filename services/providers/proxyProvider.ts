@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { fileToPart } from '../imageUtils';
+import { GenerationError } from '../generationErrors';
+import { ImageGenerationProvider, GeneratedImage } from './types';
+import { GENERATE_PATH, PROXY_MODELS, ProxyErrorResponse, ProxyGenerateRequest, ProxyGenerateResponse } from './proxyProtocol';
+
+/**
+ * A non-2xx answer from the generation server. It carries the HTTP status like
+ * the SDK's errors do, so retries and error classification treat both alike,
+ * and the server's Retry-After, which `withRetry` waits for.
+ */
+export class ProxyRequestError extends Error {
+  readonly status: number;
+  readonly retryAfterMs: number | null;
+
+  constructor(status: number, message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'ProxyRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const toImage = async (file: File): Promise<GeneratedImage> => (await fileToPart(file)).inlineData;
+
+/**
+ * Calls Gemini through the generation server (`npm run server`), which holds
+ * the API key. The server is reached on the page's own origin, through the
+ * Vite proxy in development.
+ */
+export const createProxyProvider = (): ImageGenerationProvider => {
+  const generate = async (request: ProxyGenerateRequest, signal?: AbortSignal): Promise<ProxyGenerateResponse> => {
+    const response = await fetch(GENERATE_PATH, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    });
+    if (response.ok) {
+      return response.json();
+    }
+    const body: Partial<ProxyErrorResponse> = await response.json().catch(() => ({}));
+    const message = body.error?.message ?? `The generation server answered ${response.status} ${response.statusText}.`;
+    // A content filter's refusal is final; everything else is classified by status.
+    if (body.error?.kind === 'safety-blocked') {
+      throw new GenerationError('safety-blocked', message);
+    }
+    throw new ProxyRequestError(response.status, message, parseRetryAfter(response.headers.get('Retry-After')));
+  };
+
+  return {
+    id: 'proxy',
+    models: PROXY_MODELS,
+
+    async describeLocation({ prompt, markedSceneImage, signal }) {
+      const response = await generate({ step: 'describe', prompt, images: [await toImage(markedSceneImage)] }, signal);
+      return response.step === 'describe' ? response.text : '';
+    },
+
+    async generateComposite({ prompt, productImage, sceneImage, maskImage, signal }) {
+      // The mask goes third; the prompt refers to it by position.
+      const images = await Promise.all([productImage, sceneImage, ...(maskImage ? [maskImage] : [])].map(toImage));
+      const response = await generate({ step: 'composite', prompt, images }, signal);
+      return response.step === 'composite' ? response.image : null;
+    },
+  };
+};
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Base64-encoded image returned by a provider. */
+export interface GeneratedImage {
+  mimeType: string;
+  data: string;
+}
+
+/** Input for the describe-location step. */
+export interface DescribeLocationRequest {
+  prompt: string;
+  /** The resized scene with the placement marker drawn on it. */
+  markedSceneImage: File;
+  /** Placement as 0-1 fractions of the padded square scene image. */
+  placement: { x: number; y: number };
+  /** Corners of the door opening (top-left, top-right, bottom-right, bottom-left), in the same units as `placement`. */
+  quad?: { x: number; y: number }[];
+  /** Calibrated on-image door size, as 0-1 fractions of the padded square. */
+  expectedSize?: { width: number; height: number };
+  /** Index of this candidate when several are requested for one placement. */
+  candidateIndex?: number;
+  /** Aborted when the user cancels or the step times out. */
+  signal?: AbortSignal;
+}
+
+/** Input for the composite step. */
+export interface CompositeRequest {
+  prompt: string;
+  /** The resized, padded product image. */
+  productImage: File;
+  /** The resized, padded, unmarked scene image. */
+  sceneImage: File;
+  /** Placement as 0-1 fractions of the padded square scene image. */
+  placement: { x: number; y: number };
+  /** Corners of the door opening (top-left, top-right, bottom-right, bottom-left), in the same units as `placement`. */
+  quad?: { x: number; y: number }[];
+  /** Calibrated on-image door size, as 0-1 fractions of the padded square. */
+  expectedSize?: { width: number; height: number };
+  /** Index of this candidate when several are requested for one placement. */
+  candidateIndex?: number;
+  /** Resized, padded mask of the area that may change (white) in masked mode. */
+  maskImage?: File;
+  /** Aborted when the user cancels or the step times out. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend able to run the two model-backed steps of the placement pipeline.
+ * Everything else (resizing, marking, cropping) stays in the service.
+ */
+export interface ImageGenerationProvider {
+  id: string;
+  /** Model names used for each step, reported for debugging. */
+  models: { describe: string; composite: string };
+  describeLocation(request: DescribeLocationRequest): Promise<string>;
+  /**
+   * Resolves to null when the backend returned no image. Rejects with a
+   * 'safety-blocked' `GenerationError` when a content filter withheld it.
+   */
+  generateComposite(request: CompositeRequest): Promise<GeneratedImage | null>;
+}
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Cancellation, timeouts and retries for the model calls in the generation pipeline.
+
+export type RetryReason = 'rate-limited' | 'server-error' | 'timed-out' | 'connection';
+
+/** Shown to the user while a failed step waits to be retried. */
+export interface RetryNotice {
+  /** Name of the step being retried, e.g. "describe". */
+  step: string;
+  /** The attempt about to start (2 for the first retry). */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  reason: RetryReason;
+  /** HTTP status of the failure, when there was one. */
+  status: number | null;
+}
+
+export interface RetryOptions {
+  /** Total attempts, including the first. */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Time allowed for one attempt before it is abandoned (and possibly retried). */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (notice: RetryNotice) => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 15000;
+
+/** Creates the error thrown when the user cancels; check for it with `isAbortError`. */
+export const createAbortError = () => new DOMException('Generation was cancelled.', 'AbortError');
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException ? err.name === 'AbortError' : err instanceof Error && err.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+/** Thrown when a single step takes longer than its timeout. */
+export class TimeoutError extends Error {
+  constructor(step: string, timeoutMs: number) {
+    super(`The ${step} step did not finish within ${Math.round(timeoutMs / 1000)} seconds.`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Reads an HTTP status from SDK errors (which carry `status`) or from the JSON
+// payload the API puts in the message.
+export const getErrorStatus = (err: unknown): number | null => {
+  if (typeof err !== 'object' || err === null) return null;
+  const status = (err as { status?: unknown }).status;
+  if (typeof status === 'number') return status;
+  const message = err instanceof Error ? err.message : '';
+  const match = message.match(/"code"\s*:\s*(\d{3})/);
+  return match ? Number(match[1]) : null;
+};
+
+// Reads the wait a server asked for (its Retry-After header), carried on the error as `retryAfterMs`.
+const getRetryAfterMs = (err: unknown): number | null => {
+  if (typeof err !== 'object' || err === null) return null;
+  const retryAfterMs = (err as { retryAfterMs?: unknown }).retryAfterMs;
+  return typeof retryAfterMs === 'number' ? retryAfterMs : null;
+};
+
+/** Rate limits, server errors, timeouts and dropped connections are worth another try. */
+export const isRetryableError = (err: unknown): boolean => {
+  if (isAbortError(err)) return false;
+  if (err instanceof TimeoutError) return true;
+  const status = getErrorStatus(err);
+  if (status !== null) return status === 408 || status === 429 || status >= 500;
+  // fetch reports network failures as a TypeError
+  return err instanceof TypeError;
+};
+
+const getRetryReason = (err: unknown): RetryReason => {
+  const status = getErrorStatus(err);
+  if (status === 429) return 'rate-limited';
+  if (status !== null && status >= 500) return 'server-error';
+  if (err instanceof TimeoutError) return 'timed-out';
+  return 'connection';
+};
+
+/** Waits for `ms`, rejecting early if the signal is aborted. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(createAbortError());
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Runs one attempt with its own signal, aborted by the caller's signal or the timeout.
+const runAttempt = <T>(
+  step: string,
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  signal: AbortSignal | undefined
+): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    const controller = new AbortController();
+    const onAbort = () => {
+      controller.abort();
+      reject(createAbortError());
+    };
+    const timeout = timeoutMs === undefined ? undefined : setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(step, timeoutMs));
+    }, timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    task(controller.signal).then(resolve, reject).finally(() => {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+    });
+  });
+};
+
+/**
+ * Runs a step, retrying retryable failures with exponential backoff and
+ * jitter. When the failure says how long to wait (Retry-After), that wait is
+ * used instead; if it is longer than `maxDelayMs` the error is thrown at once.
+ * The task receives a signal that is aborted on cancel or timeout.
+ * @param step Short name of the step, used in timeout errors and retry notices.
+ */
+export const withRetry = async <T>(
+  step: string,
+  task: (signal: AbortSignal) => Promise<T>,
+  {
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    timeoutMs,
+    signal,
+    onRetry,
+  }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await runAttempt(step, task, timeoutMs, signal);
+    } catch (err) {
+      if (signal?.aborted) throw createAbortError();
+      if (attempt >= maxAttempts || !isRetryableError(err)) throw err;
+
+      const retryAfterMs = getRetryAfterMs(err);
+      if (retryAfterMs !== null && retryAfterMs > maxDelayMs) throw err;
+      const delayMs = retryAfterMs ?? Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+      console.warn(`${step} failed (attempt ${attempt} of ${maxAttempts}), retrying in ${Math.round(delayMs)}ms:`, err);
+      onRetry?.({ step, attempt: attempt + 1, maxAttempts, delayMs, reason: getRetryReason(err), status: getErrorStatus(err) });
+      await sleep(delayMs, signal);
+    }
+  }
+};
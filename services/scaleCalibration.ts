@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DoorDimensions, ExpectedDoorSize, RelativePoint, ScaleCalibration } from '../types';
+
+/** Length of a line between two relative points, in pixels of an image of the given size. */
+export const getLinePixelLength = (
+  start: RelativePoint,
+  end: RelativePoint,
+  imageWidth: number,
+  imageHeight: number
+): number => {
+  const dx = ((end.xPercent - start.xPercent) / 100) * imageWidth;
+  const dy = ((end.yPercent - start.yPercent) / 100) * imageHeight;
+  return Math.hypot(dx, dy);
+};
+
+/**
+ * Converts a door's catalog dimensions into the size it should appear on the
+ * photo, using the pixels-per-millimetre ratio of the reference line. This
+ * assumes the reference sits at roughly the same depth as the door, so it is a
+ * guide rather than an exact measurement. Returns null if the calibration is
+ * unusable (zero-length line or length).
+ */
+export const computeExpectedDoorSize = (
+  calibration: ScaleCalibration,
+  dimensions: DoorDimensions,
+  imageWidth: number,
+  imageHeight: number
+): ExpectedDoorSize | null => {
+  const linePx = getLinePixelLength(calibration.start, calibration.end, imageWidth, imageHeight);
+  if (linePx <= 0 || calibration.lengthMm <= 0) return null;
+
+  const pxPerMm = linePx / calibration.lengthMm;
+  const widthPx = dimensions.width * pxPerMm;
+  const heightPx = dimensions.height * pxPerMm;
+  return {
+    widthPx,
+    heightPx,
+    widthPercent: (widthPx / imageWidth) * 100,
+    heightPercent: (heightPx / imageHeight) * 100,
+  };
+};
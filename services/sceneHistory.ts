@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SceneGeneration, SceneVersion } from '../types';
+
+/**
+ * Every version of the current scene, kept as a tree: each generated version
+ * points at the version it was generated from. Undo moves to that parent and
+ * redo to the newest version generated from the current one, so nothing is
+ * ever discarded by branching from an older version.
+ *
+ * One placement can produce several candidates (a batch). All of them are
+ * kept as versions; the one last chosen is the batch's promoted version and
+ * is the only one shown on the timeline.
+ */
+export interface SceneHistoryState {
+  versions: SceneVersion[];
+  currentId: string | null;
+  /** Promoted version id for each batch id. */
+  promotedByBatch: Record<string, string>;
+}
+
+export type SceneHistoryAction =
+  | { type: 'reset'; file: File | null }
+  | { type: 'add'; files: File[]; generation: Omit<SceneGeneration, 'batchId' | 'candidateIndex'>; parentId: string }
+  | { type: 'restore'; state: SceneHistoryState }
+  | { type: 'select'; id: string }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+export const initialSceneHistory: SceneHistoryState = { versions: [], currentId: null, promotedByBatch: {} };
+
+let versionCounter = 0;
+const createVersionId = () => `${Date.now().toString(36)}-${(versionCounter++).toString(36)}`;
+
+export const getCurrentVersion = (state: SceneHistoryState): SceneVersion | null =>
+  state.versions.find(version => version.id === state.currentId) ?? null;
+
+const isOnTimeline = (state: SceneHistoryState, version: SceneVersion): boolean =>
+  !version.generation || state.promotedByBatch[version.generation.batchId] === version.id;
+
+/** The original plus the promoted candidate of every batch, in creation order. */
+export const getTimelineVersions = (state: SceneHistoryState): SceneVersion[] =>
+  state.versions.filter(version => isOnTimeline(state, version));
+
+/** All candidates generated together with the current version, in candidate order. */
+export const getCurrentBatch = (state: SceneHistoryState): SceneVersion[] => {
+  const batchId = getCurrentVersion(state)?.generation?.batchId;
+  return batchId ? state.versions.filter(version => version.generation?.batchId === batchId) : [];
+};
+
+const getRedoTarget = (state: SceneHistoryState): SceneVersion | null => {
+  const children = state.versions.filter(version => version.parentId === state.currentId && isOnTimeline(state, version));
+  return children.length > 0 ? children[children.length - 1] : null;
+};
+
+export const canUndo = (state: SceneHistoryState): boolean => !!getCurrentVersion(state)?.parentId;
+
+export const canRedo = (state: SceneHistoryState): boolean => state.currentId !== null && getRedoTarget(state) !== null;
+
+export const sceneHistoryReducer = (state: SceneHistoryState, action: SceneHistoryAction): SceneHistoryState => {
+  switch (action.type) {
+    case 'reset': {
+      if (!action.file) return initialSceneHistory;
+      const original: SceneVersion = { id: createVersionId(), file: action.file, createdAt: Date.now(), parentId: null };
+      return { versions: [original], currentId: original.id, promotedByBatch: {} };
+    }
+    case 'add': {
+      // The parent may be gone if the scene was replaced while the files were being made.
+      if (action.files.length === 0 || !state.versions.some(version => version.id === action.parentId)) return state;
+      const batchId = createVersionId();
+      const createdAt = Date.now();
+      const batch: SceneVersion[] = action.files.map((file, candidateIndex) => ({
+        id: createVersionId(),
+        file,
+        createdAt,
+        parentId: action.parentId,
+        generation: { ...action.generation, batchId, candidateIndex },
+      }));
+      // The first candidate is promoted until the user picks another.
+      return {
+        versions: [...state.versions, ...batch],
+        currentId: batch[0].id,
+        promotedByBatch: { ...state.promotedByBatch, [batchId]: batch[0].id },
+      };
+    }
+    case 'restore':
+      return action.state;
+    case 'select': {
+      // Selecting a candidate also promotes it within its batch.
+      const version = state.versions.find(v => v.id === action.id);
+      if (!version) return state;
+      const promotedByBatch = version.generation
+        ? { ...state.promotedByBatch, [version.generation.batchId]: version.id }
+        : state.promotedByBatch;
+      return { ...state, currentId: version.id, promotedByBatch };
+    }
+    case 'undo': {
+      const parentId = getCurrentVersion(state)?.parentId;
+      return parentId ? { ...state, currentId: parentId } : state;
+    }
+    case 'redo': {
+      const target = getRedoTarget(state);
+      return target ? { ...state, currentId: target.id } : state;
+    }
+    default:
+      return state;
+  }
+};
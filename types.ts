@@ -3,8 +3,185 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+export type DoorUsage = 'interior' | 'exterior';
+
+export type DoorOpeningType = 'single-swing' | 'double-swing' | 'sliding' | 'pivot' | 'folding';
+
+/** Door leaf size in millimetres. */
+export interface DoorDimensions {
+  width: number;
+  height: number;
+  thickness: number;
+}
+
+export interface PriceRange {
+  min: number;
+  max: number;
+  /** ISO 4217 currency code. */
+  currency: string;
+}
+
+/** A finish a catalog door can be ordered in. */
+export interface DoorFinishVariant {
+  /** Unique within the door. */
+  id: string;
+  name: string;
+  /** CSS colour for the swatch, e.g. "#5c3b24". Also the target colour when the door image is recoloured. */
+  swatch: string;
+  /** Photo of the door in this finish. Without one, the main image is recoloured and the model is told the finish. */
+  imageUrl?: string;
+}
+
 export interface Door {
   id: number;
   name: string;
   imageUrl: string;
+  // Catalog details. Doors uploaded by the user only have the fields above.
+  sku?: string;
+  dimensions?: DoorDimensions;
+  material?: string;
+  /** Main colour family, used for filtering (e.g. "brown", "gray"). */
+  color?: string;
+  usage?: DoorUsage;
+  finishes?: string[];
+  variants?: DoorFinishVariant[];
+  openingType?: DoorOpeningType;
+  price?: PriceRange;
+  categories?: string[];
+}
+
+export type HingeSide = 'left' | 'right';
+
+/** Inward opens away from the camera, outward towards it. */
+export type SwingDirection = 'inward' | 'outward';
+
+export type DoorOpenState = 'closed' | 'ajar' | 'open';
+
+export type HandleType = 'lever' | 'knob' | 'pull-bar' | 'flush-pull';
+
+export type HandleFinish = 'brushed-steel' | 'polished-chrome' | 'matte-black' | 'brass' | 'bronze';
+
+export type SidelightOption = 'none' | 'left' | 'right' | 'both';
+
+/** How a door is hung and fitted out, as the customer would order it. Sides are as seen from the camera. */
+export interface DoorConfiguration {
+  hingeSide: HingeSide;
+  swing: SwingDirection;
+  openState: DoorOpenState;
+  handleType: HandleType;
+  handleFinish: HandleFinish;
+  sidelight: SidelightOption;
+  transom: boolean;
+}
+
+/** A point on the scene photo, as percentages (0-100) of its width and height. */
+export interface RelativePoint {
+  xPercent: number;
+  yPercent: number;
+}
+
+/** Corners of a door opening, in order: top-left, top-right, bottom-right, bottom-left. */
+export type PlacementQuad = [RelativePoint, RelativePoint, RelativePoint, RelativePoint];
+
+/** A line drawn over something of known real-world length on the scene photo. */
+export interface ScaleCalibration {
+  start: RelativePoint;
+  end: RelativePoint;
+  /** Real length of the line, in millimetres. */
+  lengthMm: number;
+}
+
+/** The size a door should appear on the scene photo, as percentages of its width and height. */
+export interface ExpectedDoorSize {
+  widthPercent: number;
+  heightPercent: number;
+  /** The same size in pixels of the photo the calibration was drawn on. */
+  widthPx: number;
+  heightPx: number;
+}
+
+/** A freehand brush stroke; the radius is a percentage of the image's shorter side. */
+export interface BrushStroke {
+  points: RelativePoint[];
+  radiusPercent: number;
+}
+
+/** The starting shape of an inpainting region: the door outline, or a circle around the placement. */
+export type InpaintBase =
+  | { kind: 'quad'; quad: PlacementQuad }
+  | { kind: 'circle'; center: RelativePoint; radiusPercent: number };
+
+/** The only part of the scene a masked generation may change: a base shape plus brushed additions. */
+export interface InpaintRegion {
+  base: InpaintBase;
+  strokes: BrushStroke[];
+}
+
+/**
+ * What the door does at the chosen spot: take the place of a door already
+ * there, go into a new opening cut in a plain wall, or fill an empty doorway.
+ */
+export type PlacementMode = 'replace-existing' | 'cut-into-wall' | 'fill-opening';
+
+/** Where a door was placed for a generation. */
+export interface ScenePlacement {
+  point: RelativePoint;
+  quad?: PlacementQuad;
+  /** Absent for results saved before placement modes existed. */
+  mode?: PlacementMode;
+  /** Set when the generation was restricted to this region. */
+  inpaintRegion?: InpaintRegion;
+}
+
+/** The prompt templates that produced a result, each as `name@version`. */
+export interface PromptTemplateRefs {
+  describe: string;
+  composite: string;
+}
+
+/** A step of the placement pipeline that looked for its result in the generation cache. */
+export interface CacheLookup {
+  stage: 'resize' | 'describe' | 'compose';
+  /** Which image was resized; only for 'resize'. */
+  image?: 'door' | 'scene' | 'mask';
+  /** Only for 'compose'. */
+  candidateIndex?: number;
+  /** Hash of the step's inputs. */
+  key: string;
+  hit: boolean;
+}
+
+/** How a generated scene version was produced. */
+export interface SceneGeneration {
+  door: Door;
+  placement: ScenePlacement;
+  debugImageUrl: string;
+  prompt: string;
+  /** Absent for results saved before prompt templates were versioned. */
+  promptTemplates?: PromptTemplateRefs;
+  /** The hinge, hardware and glazing options the door was rendered with. */
+  doorConfiguration?: DoorConfiguration;
+  /** The finish chosen for the door; absent when it was rendered as pictured. */
+  finish?: DoorFinishVariant;
+  /** Absent for results saved before the generation cache existed. */
+  cacheLookups?: CacheLookup[];
+  /** Shared by all candidates generated from one placement. */
+  batchId: string;
+  candidateIndex: number;
+}
+
+export interface SceneVersion {
+  id: string;
+  file: File;
+  createdAt: number;
+  /** The version this one was generated from; null for the original upload. */
+  parentId: string | null;
+  /** Absent for the original upload. */
+  generation?: SceneGeneration;
+}
+
+/** A door image the user uploaded themselves, kept so it can be picked again. */
+export interface CustomDoor {
+  door: Door;
+  file: File;
 }
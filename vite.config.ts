@@ -4,15 +4,27 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Requests to /api go to the generation server, which holds the Gemini key.
+    const apiProxy = {
+      '/api': {
+        target: `http://localhost:${env.API_PORT || 8787}`,
+        xfwd: true,
+      },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Never define the API key here: anything in `define` ships in the client bundle.
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER || 'proxy'),
+        'process.env.PROMPT_VERSIONS': JSON.stringify(env.PROMPT_VERSIONS || '')
       },
       resolve: {
         alias: {